@@ -1,49 +1,29 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AppState, User, CheckSession, SessionDuration, QAMessage, ExtractedTopic, TopicPerformance, SessionTurnResponse, KnowledgeReport, PersonalityProfile } from './types';
-import { extractTopicsFromNotes, runSessionTurn, generateKnowledgeReport, extractTextFromImage } from './services/geminiService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AppState, User, CheckSession, SessionPacing, ExtractedTopic, SessionTurnResponse, KnowledgeReport, PersonalityProfile, SessionCheckpoint, ReviewItem, ReviewDeck, ConfidenceLevel, ClosedAnswer } from './types';
+import { extractTopicsFromNotes, runSessionTurn, generateKnowledgeReport } from './services/geminiService';
+import { generateId, createSession, appendUserMessage, appendClosedAnswer, appendAiNotice, applyTurn, shouldEndAfterTurn, resolveTimeUp, pacingExhausted, enterOvertime, completeSession, buildFallbackReport, resumeSession, pendingTurn, pauseSession, unpauseSession, isSessionPaused } from './services/sessionEngine';
+import { loadReviewItems, recordReviewResults, dueReviewDecks, reviewTopics, reviewNotes, REVIEW_SESSION_LIMIT } from './services/reviewScheduler';
+import { noteSetIdFor, alignExtractedTopics } from './services/noteIdentity';
+import { buildMasteryHistory } from './services/masteryHistory';
+import { checkpointKey, saveCheckpoint, loadCheckpoint, clearCheckpoint } from './services/sessionCheckpoint';
+import { onModelTelemetry } from './services/modelTelemetry';
 import { supabase } from './services/supabaseClient';
+import { createStudyRepository } from './services/studyRepository';
+import { ingestFile, ingestImages, IngestProgress, renderNotes } from './services/ingestion';
+import { mergeSources, sourceLabels, SourceNotes, tagTopicSources } from './services/noteCorpus';
+import type { ExtractionProgress } from './services/topicExtraction';
+import { sessionTopics } from './services/topicEditing';
 import { AuthView } from './components/AuthView';
 import { BrandMark } from './components/BrandMark';
 import { HomeView } from './components/HomeView';
 import { SetupView } from './components/SetupView';
 import { SessionView } from './components/SessionView';
 import { ReportView } from './components/ReportView';
+import { HistoryView } from './components/HistoryView';
 import { PersonalitySetup } from './components/PersonalitySetup';
 import { ThemeProvider } from './components/ThemeContext';
-import * as pdfjsLib from 'pdfjs-dist';
-import pdfWorkerSrc from 'pdfjs-dist/build/pdf.worker.mjs?url';
-
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
-
-type AppScreen = 'home' | 'setup' | 'session' | 'report';
-
-function generateId(): string {
-  return Math.random().toString(36).slice(2) + Date.now().toString(36);
-}
-
-async function extractTextFromPdf(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const pages: string[] = [];
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    pages.push(content.items.map((item: any) => item.str).join(' '));
-  }
-  return pages.join('\n\n');
-}
-
-function loadPastReports(): KnowledgeReport[] {
-  try {
-    const raw = localStorage.getItem('crosscheck-reports');
-    return raw ? JSON.parse(raw) : [];
-  } catch { return []; }
-}
-
-function savePastReports(reports: KnowledgeReport[]) {
-  try { localStorage.setItem('crosscheck-reports', JSON.stringify(reports.slice(-20))); } catch {}
-}
+type AppScreen = 'home' | 'setup' | 'session' | 'report' | 'history';
 
 // Nav SVG icons
 const NAV_ICONS = {
@@ -51,13 +31,15 @@ const NAV_ICONS = {
   setup: <svg width="14" height="14" viewBox="0 0 16 16" fill="none"><rect x="2" y="2" width="12" height="12" rx="2" stroke="currentColor" strokeWidth="1.2" fill="none" /><path d="M5 8h6M5 5h6M5 11h4" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" /></svg>,
   session: <svg width="14" height="14" viewBox="0 0 16 16" fill="none"><circle cx="8" cy="8" r="6" stroke="currentColor" strokeWidth="1.2" fill="none" /><path d="M8 5v3l2 2" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" /></svg>,
   report: <svg width="14" height="14" viewBox="0 0 16 16" fill="none"><path d="M3 2h10v12H3z" stroke="currentColor" strokeWidth="1.2" fill="none" /><path d="M5 6h6M5 9h6M5 12h3" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" /></svg>,
+  history: <svg width="14" height="14" viewBox="0 0 16 16" fill="none"><path d="M2 13l4-4 3 2 5-6" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round" fill="none" /><path d="M2 2v12h12" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" fill="none" /></svg>,
 };
 
 const PAGE_NAMES: Record<AppScreen, string> = {
   home: 'Home',
   setup: 'New session',
   session: 'Live session',
-  report: 'Session report'
+  report: 'Session report',
+  history: 'Mastery history'
 };
 
 export default function App() {
@@ -67,21 +49,37 @@ export default function App() {
 
   // Upload / extraction
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<IngestProgress | null>(null);
+  const [uploadSources, setUploadSources] = useState<string[]>([]);
+  const [extractProgress, setExtractProgress] = useState<ExtractionProgress | null>(null);
   const [noteContent, setNoteContent] = useState('');
   const [noteTitle, setNoteTitle] = useState('');
+  const [uploadId, setUploadId] = useState<string | undefined>(undefined);
   const [extractedTopics, setExtractedTopics] = useState<ExtractedTopic[]>([]);
-  const [selectedDuration, setSelectedDuration] = useState<SessionDuration>(30);
+  const [selectedPacing, setSelectedPacing] = useState<SessionPacing>({ kind: 'timed', minutes: 30 });
 
   // Session
   const [session, setSession] = useState<CheckSession | null>(null);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [isAiThinking, setIsAiThinking] = useState(false);
+  // The examiner's reply as it streams in; cleared once the turn is applied
+  const [streamingReply, setStreamingReply] = useState('');
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const overtimeTriggeredRef = useRef(false);
+  const [resumable, setResumable] = useState<SessionCheckpoint | null>(null);
+  const sessionRef = useRef<CheckSession | null>(null);
+  const elapsedRef = useRef(0);
+  const isPaused = !!session && isSessionPaused(session);
+  sessionRef.current = session;
+  elapsedRef.current = elapsedSeconds;
 
   // Reports
-  const [pastReports, setPastReports] = useState<KnowledgeReport[]>(loadPastReports);
+  const [pastReports, setPastReports] = useState<KnowledgeReport[]>([]);
+  const repository = useMemo(() => createStudyRepository(user), [user]);
   const [viewingReport, setViewingReport] = useState<KnowledgeReport | null>(null);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const dueReviews = useMemo(() => dueReviewDecks(reviewItems), [reviewItems]);
+  const masteryHistory = useMemo(() => buildMasteryHistory(pastReports), [pastReports]);
 
   // Personality
   const [personality, setPersonality] = useState<PersonalityProfile | null>(() => {
@@ -110,6 +108,9 @@ export default function App() {
     console.error(`[${context}]`, err);
   };
 
+  // Schema coercions, re-asks and validation failures from the model layer
+  useEffect(() => onModelTelemetry(e => logError(e.context, e.message)), []);
+
   // Auth check
   useEffect(() => {
     supabase.auth.getSession().then(({ data }: { data: any }) => { const sb = data.session;
@@ -120,156 +121,287 @@ export default function App() {
     });
   }, []);
 
-  // Timer
+  // Timer — stopped while paused so paused time never advances the mode
   useEffect(() => {
-    if (appState === AppState.SESSION_ACTIVE) {
+    if (appState === AppState.SESSION_ACTIVE && !isPaused) {
       timerRef.current = setInterval(() => setElapsedSeconds(p => p + 1), 1000);
     } else {
       if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
     }
     return () => { if (timerRef.current) clearInterval(timerRef.current); };
+  }, [appState, isPaused]);
+
+  // Auto-pause while the tab is hidden; only pauses taken this way resume on their own
+  useEffect(() => {
+    if (appState !== AppState.SESSION_ACTIVE) return;
+    const onVisibility = () => setSession(prev => {
+      if (!prev || prev.status === 'complete') return prev;
+      if (document.visibilityState === 'hidden') return pauseSession(prev, 'hidden');
+      return prev.pauses?.[prev.pauses.length - 1]?.reason === 'hidden' ? unpauseSession(prev) : prev;
+    });
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
   }, [appState]);
 
-  // Overtime / time-up
+  // Overtime / time-up (or last counted question answered)
   useEffect(() => {
     if (!session || appState !== AppState.SESSION_ACTIVE) return;
-    const totalSeconds = session.duration * 60;
-    if (elapsedSeconds >= totalSeconds && !overtimeTriggeredRef.current) {
+    if (pacingExhausted(session, elapsedSeconds) && !overtimeTriggeredRef.current) {
       overtimeTriggeredRef.current = true;
-      const hasWeakness = Object.values(session.topicPerformances).some(p => p.status === 'weak' || p.status === 'revisit');
-      const hasUntested = session.topics.some(t => !session.topicPerformances[t.id]);
-      if (hasWeakness || hasUntested) {
-        setSession(prev => prev ? { ...prev, isOvertimeActive: true, status: 'overtime' } : prev);
+      if (resolveTimeUp(session) === 'overtime') {
+        setSession(prev => prev ? enterOvertime(prev) : prev);
       } else {
         handleEndSession();
       }
     }
   }, [elapsedSeconds, session, appState]);
 
+  // Spaced-repetition schedule (device-local)
+  useEffect(() => {
+    loadReviewItems().then(setReviewItems).catch(e => logError('loadReviews', e));
+  }, []);
+
+  // Offer to resume a session that was still running when the page went away
+  const checkpointId = checkpointKey(user?.id);
+  useEffect(() => {
+    if (!user) { setResumable(null); return; }
+    loadCheckpoint(checkpointId).then(setResumable).catch(e => logError('loadCheckpoint', e));
+  }, [user, checkpointId]);
+
+  // Checkpoint after every turn and pause (each one changes the session), and once more
+  // with the latest elapsed time when the page is unloaded
+  const writeCheckpoint = () => {
+    const active = sessionRef.current;
+    if (!active || active.status === 'complete') return;
+    saveCheckpoint({ key: checkpointId, session: active, elapsedSeconds: elapsedRef.current, overtimeTriggered: overtimeTriggeredRef.current, savedAt: Date.now() })
+      .catch(e => logError('saveCheckpoint', e));
+  };
+
+  useEffect(() => {
+    if (appState === AppState.SESSION_ACTIVE) writeCheckpoint();
+  }, [session, appState]);
+
+  useEffect(() => {
+    if (appState !== AppState.SESSION_ACTIVE) return;
+    window.addEventListener('pagehide', writeCheckpoint);
+    return () => window.removeEventListener('pagehide', writeCheckpoint);
+  }, [appState, checkpointId]);
+
+  // Load device history, then keep it in sync: on sign-in, whenever the browser comes
+  // back online, and every minute for queued writes whose retry backoff has elapsed
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => repository.loadReports()
+      .then(reports => { if (!cancelled) setPastReports(reports); })
+      .catch(e => logError('loadHistory', e));
+    const sync = (force = false) => repository.sync({ force })
+      .then(result => { if (result?.pulled) refresh(); })
+      .catch(e => logError('sync', e));
+
+    refresh().then(() => sync());
+    if (repository.kind !== 'supabase') return () => { cancelled = true; };
+    const onOnline = () => sync(true);
+    window.addEventListener('online', onOnline);
+    const interval = setInterval(() => sync(), 60000);
+    return () => { cancelled = true; window.removeEventListener('online', onOnline); clearInterval(interval); };
+  }, [repository]);
+
   const handleAuth = (u: User) => { setUser(u); setAppState(AppState.IDLE); };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
-    setUser(null); setSession(null); setNoteContent(''); setNoteTitle('');
+    setUser(null); setSession(null); setNoteContent(''); setNoteTitle(''); setUploadId(undefined);
     setExtractedTopics([]); setUploadedFile(null); setElapsedSeconds(0);
     overtimeTriggeredRef.current = false;
     setAppState(AppState.AUTH); setActiveScreen('home');
   };
 
-  const processNotes = async (content: string, file?: File) => {
+  const processNotes = async (content: string, files: File[] = [], sourceNames: string[] = files.map(f => f.name)) => {
     setAppState(AppState.PROCESSING);
     setActiveScreen('setup');
     setError('');
-    if (file) setUploadedFile(file);
+    if (files[0]) setUploadedFile(files[0]);
+    setUploadSources(sourceNames);
     try {
-      const { title, topics } = await extractTopicsFromNotes(content);
-      setNoteContent(content); setNoteTitle(title); setExtractedTopics(topics);
+      const extracted = await extractTopicsFromNotes(content, setExtractProgress);
+      setExtractProgress(null);
+      const { title } = extracted;
+      // Keep topic ids stable across re-extractions of notes seen before
+      const noteSetId = noteSetIdFor(content);
+      const known = [...pastReports].reverse().filter(r => r.noteSetId === noteSetId)
+        .flatMap(r => r.topics.map(t => ({ id: t.topicId, name: t.topicName, concepts: t.concepts || [] })))
+        .filter((t, i, all) => all.findIndex(o => o.id === t.id) === i);
+      const topics = tagTopicSources(alignExtractedTopics(extracted.topics, known), content, sourceNames);
+      const id = generateId();
+      setNoteContent(content); setNoteTitle(title); setExtractedTopics(topics); setUploadId(id);
       setAppState(AppState.SESSION_SETUP);
+      repository.saveUpload({
+        id, fileName: files.length > 1 ? `${files[0].name} + ${files.length - 1} more` : files[0]?.name || title, title, noteContent: content, topics,
+        sources: files.map(f => ({ name: f.name, type: f.type, size: f.size }))
+      }).catch(e => logError('saveUpload', e));
     } catch (e: any) {
       logError('processNotes', e);
+      setExtractProgress(null);
       setError(e?.message || 'Failed to process notes.');
       setAppState(AppState.IDLE); setActiveScreen('home');
     }
   };
 
   const handleFileUpload = async (files: File | File[]) => {
-    const fileList = Array.isArray(files) ? files : [files];
-    const primary = fileList[0];
+    // The same file picked twice is read once
+    const fileList = (Array.isArray(files) ? files : [files])
+      .filter((f, i, all) => all.findIndex(o => o.name === f.name && o.size === f.size && o.lastModified === f.lastModified) === i);
     setAppState(AppState.UPLOADING);
     setActiveScreen('setup');
     try {
-      let content: string;
-      const images = fileList.filter(f => f.type.startsWith('image/'));
-      if (images.length > 0) {
-        content = await extractTextFromImage(images.length === 1 ? images[0] : images);
-      } else if (primary.type === 'application/pdf') {
-        content = await extractTextFromPdf(primary);
-      } else {
-        content = await primary.text();
+      // Every file is its own source; mergeSources() prefixes sections with the file name
+      const names = sourceLabels(fileList.map(f => f.name));
+      const sources: SourceNotes[] = [];
+      for (const [index, file] of fileList.entries()) {
+        const onProgress = (p: IngestProgress) => setUploadProgress(fileList.length > 1 ? { ...p, file: { name: file.name, index: index + 1, count: fileList.length } } : p);
+        onProgress({ stage: 'reading', page: 1, pages: 1 });
+        let notes;
+        try {
+          notes = file.type.startsWith('image/') ? await ingestImages([file], onProgress) : await ingestFile(file, onProgress);
+        } catch (e: any) {
+          throw new Error(fileList.length > 1 ? `${file.name}: ${e?.message || 'could not be read'}` : e?.message);
+        }
+        // A blank page among several files shouldn't sink the whole upload
+        if (renderNotes(notes).trim()) sources.push({ name: names[index], notes });
       }
+      const { notes, duplicateParagraphs } = mergeSources(sources);
+      if (duplicateParagraphs) console.log(`[upload] dropped ${duplicateParagraphs} repeated paragraphs across ${sources.length} files`);
+      const content = renderNotes(notes);
+      setUploadProgress(null);
       if (!content.trim()) throw new Error('No readable text found in file.');
-      await processNotes(content, primary);
+      await processNotes(content, fileList, sources.map(s => s.name));
     } catch (e: any) {
       logError('fileUpload', e);
       setError(e?.message || 'Failed to read file.');
+      setUploadProgress(null);
       setUploadedFile(null); setAppState(AppState.IDLE); setActiveScreen('home');
     }
   };
 
-  const handleStartSession = useCallback(async () => {
-    if (!extractedTopics.length) return;
-    const newSession: CheckSession = {
-      id: generateId(), uploadTitle: noteTitle, noteContent, topics: extractedTopics,
-      messages: [], duration: selectedDuration, startTime: Date.now(),
-      isOvertimeActive: false, topicPerformances: {}, status: 'active'
-    };
-    setSession(newSession); setElapsedSeconds(0);
-    overtimeTriggeredRef.current = false;
-    setIsAiThinking(true); setAppState(AppState.SESSION_ACTIVE); setActiveScreen('session');
-
+  // Opening question for a new session, or for a resumed one that never got it
+  const runOpeningTurn = async (target: CheckSession, elapsed = 0) => {
+    setIsAiThinking(true);
     try {
-      const turn = await runSessionTurn(newSession, null, 0, true, personalityActive ? personality ?? undefined : undefined);
-      const aiMsg: QAMessage = { id: generateId(), role: 'ai', content: turn.message, topicId: turn.currentTopicId, tag: 'question', timestamp: Date.now() };
-      setSession(prev => prev ? { ...prev, messages: [aiMsg] } : prev);
+      const turn = await runSessionTurn(target, null, elapsed, true, personalityActive ? personality ?? undefined : undefined, setStreamingReply);
+      setSession(prev => prev ? applyTurn({ ...prev, messages: [] }, turn, true) : prev);
     } catch (e) {
       logError('startSession', e);
-      setSession(prev => prev ? { ...prev, messages: [{ id: generateId(), role: 'ai', content: 'The audit is beginning. Walk me through the main topics covered in your notes.', timestamp: Date.now() }] } : prev);
-    } finally { setIsAiThinking(false); }
-  }, [extractedTopics, noteTitle, noteContent, selectedDuration]);
-
-  const handleSendMessage = useCallback(async (text: string) => {
-    if (!session || isAiThinking) return;
-    const userMsg: QAMessage = { id: generateId(), role: 'user', content: text, timestamp: Date.now() };
-    const updated = { ...session, messages: [...session.messages, userMsg] };
-    setSession(updated); setIsAiThinking(true);
+      setSession(prev => prev ? appendAiNotice({ ...prev, messages: [] }, 'The audit is beginning. Walk me through the main topics covered in your notes.') : prev);
+    } finally { setIsAiThinking(false); setStreamingReply(''); }
+  };
 
+  const runReplyTurn = async (updated: CheckSession, text: string, elapsed: number) => {
+    setIsAiThinking(true);
     try {
-      const turn: SessionTurnResponse = await runSessionTurn(updated, text, elapsedSeconds, false, personalityActive ? personality ?? undefined : undefined);
-      const aiMsg: QAMessage = { id: generateId(), role: 'ai', content: turn.message, topicId: turn.currentTopicId, tag: turn.isFollowUp ? 'followup' : 'question', timestamp: Date.now() };
-
-      const newPerfs = { ...updated.topicPerformances };
-      if (turn.topicUpdate) {
-        const t = session.topics.find(t => t.id === turn.topicUpdate!.topicId);
-        if (t) newPerfs[t.id] = { topicId: t.id, topicName: t.name, status: turn.topicUpdate.status as any, evidence: turn.topicUpdate.evidence, noteSection: t.noteSection, concepts: t.concepts };
-      }
-
-      const next: CheckSession = { ...updated, messages: [...updated.messages, aiMsg], topicPerformances: newPerfs };
-      setSession(next);
-      if (turn.sessionShouldEnd && !turn.overtimeNeeded) setTimeout(() => handleEndSession(next), 800);
+      const turn: SessionTurnResponse = await runSessionTurn(updated, text, elapsed, false, personalityActive ? personality ?? undefined : undefined, setStreamingReply);
+      // Keep pauses taken while the model was replying (tab hidden, manual toggle)
+      let next: CheckSession | null = null;
+      setSession(prev => (next = prev ? applyTurn({ ...updated, pauses: prev.pauses }, turn) : prev));
+      if (shouldEndAfterTurn(turn)) setTimeout(() => { if (next) handleEndSession(next); }, 800);
     } catch (e) {
       logError('sendMessage', e);
-      setSession(prev => prev ? { ...prev, messages: [...prev.messages, { id: generateId(), role: 'ai', content: 'Connection issue. Please try again.', timestamp: Date.now() }] } : prev);
-    } finally { setIsAiThinking(false); }
+      setSession(prev => prev ? appendAiNotice(prev, 'Connection issue. Please try again.') : prev);
+    } finally { setIsAiThinking(false); setStreamingReply(''); }
+  };
+
+  const beginSession = async (newSession: CheckSession) => {
+    setSession(newSession); setElapsedSeconds(0);
+    overtimeTriggeredRef.current = false;
+    setResumable(null);
+    setAppState(AppState.SESSION_ACTIVE); setActiveScreen('session');
+    await runOpeningTurn(newSession);
+  };
+
+  const handleStartSession = useCallback(async () => {
+    const topics = sessionTopics(extractedTopics);
+    if (!topics.length) { setError('Include at least one topic before starting.'); return; }
+    // Keep the edited list with the upload so a later session from it starts the same way
+    if (uploadId) repository.loadUpload(uploadId)
+      .then(u => u && repository.saveUpload({ ...u, topics: extractedTopics }))
+      .catch(e => logError('saveUpload', e));
+    await beginSession(createSession({ uploadId, uploadTitle: noteTitle, noteContent, topics, pacing: selectedPacing }));
+  }, [extractedTopics, noteTitle, noteContent, selectedPacing, uploadId, repository]);
+
+  // Short audit over only the concepts due from one set of notes
+  const handleStartReview = async (deck: ReviewDeck) => {
+    const upload = deck.uploadId ? await repository.loadUpload(deck.uploadId).catch(() => null) : null;
+    const topics = reviewTopics(deck.items);
+    const content = upload?.noteContent || reviewNotes(deck);
+    setNoteContent(content); setNoteTitle(deck.uploadTitle); setExtractedTopics(upload?.topics || topics); setUploadId(deck.uploadId);
+    setUploadedFile(null); setViewingReport(null);
+    const reviewItemIds = deck.items.slice(0, REVIEW_SESSION_LIMIT).map(i => i.id);
+    // The deck key stands in for a missing note-set id so the results land back on this deck
+    await beginSession(createSession({ uploadId: deck.uploadId, noteSetId: deck.noteSetId ?? deck.deckKey, uploadTitle: deck.uploadTitle, noteContent: content, topics, pacing: { kind: 'timed', minutes: 15 }, reviewItemIds }));
+  };
+
+  // Closed answers arrive as the widget's pick; they're graded from the key as they're added
+  const handleSendMessage = useCallback(async (text: string, confidence?: ConfidenceLevel, closed?: ClosedAnswer) => {
+    if (!session || isAiThinking || isSessionPaused(session)) return;
+    const updated = closed
+      ? appendClosedAnswer(session, closed, Date.now(), confidence)
+      : appendUserMessage(session, text, Date.now(), confidence);
+    setSession(updated);
+    await runReplyTurn(updated, updated.messages[updated.messages.length - 1].content, elapsedSeconds);
   }, [session, isAiThinking, elapsedSeconds]);
 
+  const handleResumeSession = async () => {
+    if (!resumable) return;
+    const { elapsedSeconds: elapsed, overtimeTriggered } = resumable;
+    const restored = resumeSession(resumable.session, elapsed);
+    setSession(restored); setElapsedSeconds(elapsed);
+    overtimeTriggeredRef.current = overtimeTriggered;
+    setNoteContent(restored.noteContent); setNoteTitle(restored.uploadTitle);
+    setExtractedTopics(restored.topics); setUploadId(restored.uploadId);
+    setUploadedFile(null); setViewingReport(null); setResumable(null);
+    setAppState(AppState.SESSION_ACTIVE); setActiveScreen('session');
+
+    // Re-ask whatever the model was answering when the page went away
+    const pending = pendingTurn(restored);
+    if (pending?.kind === 'opening') await runOpeningTurn(restored, elapsed);
+    else if (pending?.kind === 'reply') await runReplyTurn(restored, pending.text, elapsed);
+  };
+
+  const handleTogglePause = () => {
+    setSession(prev => prev ? (isSessionPaused(prev) ? unpauseSession(prev) : pauseSession(prev, 'manual')) : prev);
+  };
+
+  const handleDiscardSession = () => {
+    setResumable(null);
+    clearCheckpoint(checkpointId).catch(e => logError('clearCheckpoint', e));
+  };
+
   const handleEndSession = useCallback(async (override?: CheckSession) => {
     const active = override || session;
     if (!active) return;
     if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
-    const final: CheckSession = { ...active, endTime: Date.now(), status: 'complete' };
+    const final = completeSession(active);
     setSession(final); setIsAiThinking(true);
+    clearCheckpoint(checkpointId).catch(e => logError('clearCheckpoint', e));
 
+    let report: KnowledgeReport;
     try {
-      const report = await generateKnowledgeReport(final);
-      setSession(prev => prev ? { ...prev, report } : prev);
-      setViewingReport(report);
-      const updated = [...pastReports, report];
-      setPastReports(updated); savePastReports(updated);
+      report = await generateKnowledgeReport(final);
     } catch (e) {
       logError('endSession/generateReport', e);
-      const topics = final.topics.map(t => final.topicPerformances[t.id] || { topicId: t.id, topicName: t.name, status: 'untested' as const, evidence: 'Not covered.', concepts: t.concepts });
-      const report: KnowledgeReport = { sessionId: final.id, date: new Date().toISOString(), uploadTitle: final.uploadTitle, durationMinutes: final.duration, actualDurationMinutes: Math.round((Date.now() - final.startTime) / 60000), topics, revisitList: topics.filter(t => t.status === 'weak' || t.status === 'revisit').flatMap(t => t.concepts.slice(0, 2).map(c => ({ concept: c, topicName: t.topicName }))), overtimeUsed: final.isOvertimeActive };
-      setViewingReport(report);
-      const updated = [...pastReports, report];
-      setPastReports(updated); savePastReports(updated);
-    } finally {
-      setIsAiThinking(false);
-      setAppState(AppState.REPORT); setActiveScreen('report');
+      report = buildFallbackReport(final);
     }
-  }, [session, pastReports]);
+    setSession(prev => prev ? { ...prev, report } : prev);
+    setViewingReport(report);
+    setPastReports(prev => [...prev, report]);
+    setIsAiThinking(false);
+    setAppState(AppState.REPORT); setActiveScreen('report');
+
+    repository.saveSession(final, report).catch(e => logError('saveSession', e));
+    recordReviewResults(report).then(setReviewItems).catch(e => logError('recordReviews', e));
+  }, [session, repository, checkpointId]);
 
   const handleNewSession = () => {
-    setSession(null); setNoteContent(''); setNoteTitle(''); setExtractedTopics([]);
+    setSession(null); setNoteContent(''); setNoteTitle(''); setExtractedTopics([]); setUploadId(undefined);
     setUploadedFile(null); setElapsedSeconds(0); overtimeTriggeredRef.current = false;
     setViewingReport(null); setAppState(AppState.IDLE); setActiveScreen('setup');
   };
@@ -456,7 +588,8 @@ export default function App() {
               { id: 'home', label: 'Home' },
               { id: 'setup', label: 'New session' },
               { id: 'session', label: 'Live session', disabled: appState !== AppState.SESSION_ACTIVE },
-              { id: 'report', label: 'Reports', disabled: !displayReport }
+              { id: 'report', label: 'Reports', disabled: !displayReport },
+              { id: 'history', label: 'History', disabled: pastReports.length === 0 }
             ] as const).map(item => {
               const isActive = activeScreen === item.id;
               const disabled = (item as any).disabled;
@@ -585,23 +718,32 @@ export default function App() {
                 onFileUpload={handleFileUpload}
                 onViewReport={handleViewReport}
                 onStartNewSession={() => setActiveScreen('setup')}
+                resumable={appState === AppState.SESSION_ACTIVE ? null : resumable}
+                onResumeSession={handleResumeSession}
+                onDiscardSession={handleDiscardSession}
+                dueReviews={dueReviews}
+                onStartReview={handleStartReview}
               />
             )}
             {activeScreen === 'setup' && (
               <SetupView
                 appState={appState}
                 uploadedFile={uploadedFile}
+                uploadProgress={uploadProgress}
+                uploadSources={uploadSources}
+                extractProgress={extractProgress}
                 noteTitle={noteTitle}
                 extractedTopics={extractedTopics}
-                selectedDuration={selectedDuration}
-                onDurationChange={setSelectedDuration}
+                selectedPacing={selectedPacing}
+                onPacingChange={setSelectedPacing}
                 onFileUpload={handleFileUpload}
+                onTopicsChange={setExtractedTopics}
                 onBeginSession={handleStartSession}
               />
             )}
             {activeScreen === 'session' && session && (
               <div style={{ height: '100%' }}>
-                {isAiThinking && session.messages.length === 0 ? (
+                {isAiThinking && session.messages.length === 0 && !streamingReply ? (
                   <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%', gap: 12, fontFamily: 'var(--font-sans)' }}>
                     <div style={{ width: 24, height: 24, border: '2px solid var(--color-border-tertiary)', borderTopColor: 'var(--color-text-primary)', borderRadius: '50%', animation: 'spin 0.8s linear infinite' }} />
                     <span style={{ fontSize: 13, color: 'var(--color-text-secondary)' }}>Starting audit…</span>
@@ -612,7 +754,10 @@ export default function App() {
                     session={session}
                     elapsedSeconds={elapsedSeconds}
                     isAiThinking={isAiThinking}
+                    streamingReply={streamingReply}
                     onSendMessage={handleSendMessage}
+                    isPaused={isPaused}
+                    onTogglePause={handleTogglePause}
                     personality={personality ?? undefined}
                     personalityActive={personalityActive}
                   />
@@ -622,6 +767,9 @@ export default function App() {
             {activeScreen === 'report' && displayReport && (
               <ReportView report={displayReport} onNewSession={handleNewSession} onStudyAgain={handleStudyAgain} />
             )}
+            {activeScreen === 'history' && (
+              <HistoryView history={masteryHistory} pastReports={pastReports} onViewReport={handleViewReport} />
+            )}
             {activeScreen === 'report' && !displayReport && (
               <div style={{ padding: 24, fontSize: 13, color: 'var(--color-text-tertiary)', fontFamily: 'var(--font-sans)' }}>No report available yet.</div>
             )}
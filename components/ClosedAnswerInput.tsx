@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ClosedAnswer, QAMessage } from '../types';
+import { optionLetter, shuffledOrder } from '../services/questionFormats';
+
+interface Props {
+  // The examiner's closed question (mcq, true_false, fill_blank or ordering)
+  question: QAMessage;
+  disabled: boolean;
+  // The answer as it stands, or null while it's incomplete
+  onChange: (answer: ClosedAnswer | null) => void;
+  onSubmit: () => void;
+}
+
+const choiceButton = (selected: boolean, disabled: boolean): React.CSSProperties => ({
+  display: 'flex', alignItems: 'center', gap: 8, width: '100%', textAlign: 'left',
+  padding: '7px 10px', fontSize: 12, lineHeight: 1.4, borderRadius: 7,
+  fontFamily: 'var(--font-sans)', cursor: disabled ? 'not-allowed' : 'pointer',
+  background: selected ? 'var(--color-background-secondary)' : 'var(--color-background-primary)',
+  color: 'var(--color-text-primary)',
+  border: `0.5px solid ${selected ? 'var(--color-text-primary)' : 'var(--color-border-secondary)'}`,
+  opacity: disabled ? 0.5 : 1
+});
+
+const textField: React.CSSProperties = {
+  width: '100%', boxSizing: 'border-box', fontSize: 13, lineHeight: 1.5,
+  fontFamily: 'var(--font-sans)', padding: '8px 12px',
+  border: '0.5px solid var(--color-border-secondary)', borderRadius: 8,
+  background: 'var(--color-background-primary)', color: 'var(--color-text-primary)', outline: 'none'
+};
+
+const smallButton: React.CSSProperties = {
+  padding: '2px 7px', fontSize: 11, lineHeight: 1.3,
+  border: '0.5px solid var(--color-border-tertiary)', borderRadius: 5,
+  background: 'var(--color-background-primary)', color: 'var(--color-text-secondary)',
+  cursor: 'pointer', fontFamily: 'var(--font-sans)'
+};
+
+export function ClosedAnswerInput({ question, disabled, onChange, onSubmit }: Props) {
+  const spec = question.question || {};
+  const [index, setIndex] = useState<number | null>(null);
+  const [verdict, setVerdict] = useState<boolean | null>(null);
+  const [text, setText] = useState('');
+  const [order, setOrder] = useState<string[]>(() => shuffledOrder(spec.options || [], question.id));
+
+  // Report the answer whenever it changes; an ordering is always complete
+  useEffect(() => {
+    switch (question.questionType) {
+      case 'mcq': onChange(index === null ? null : { kind: 'mcq', index }); break;
+      case 'true_false': onChange(verdict === null || !text.trim() ? null : { kind: 'true_false', value: verdict, justification: text }); break;
+      case 'fill_blank': onChange(text.trim() ? { kind: 'fill_blank', text } : null); break;
+      case 'ordering': onChange({ kind: 'ordering', order }); break;
+      default: onChange(null);
+    }
+  }, [question.questionType, index, verdict, text, order]);
+
+  const move = (i: number, delta: number) => {
+    const j = i + delta;
+    if (j < 0 || j >= order.length) return;
+    const next = [...order];
+    [next[i], next[j]] = [next[j], next[i]];
+    setOrder(next);
+  };
+
+  if (question.questionType === 'mcq') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 5 }}>
+        {(spec.options || []).map((option, i) => (
+          <button key={i} onClick={() => setIndex(i)} disabled={disabled} style={choiceButton(index === i, disabled)}>
+            <span style={{ fontSize: 11, fontWeight: 500, color: 'var(--color-text-tertiary)', width: 14 }}>{optionLetter(i)}</span>
+            <span>{option}</span>
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (question.questionType === 'true_false') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {[true, false].map(value => (
+            <button key={String(value)} onClick={() => setVerdict(value)} disabled={disabled} style={{ ...choiceButton(verdict === value, disabled), width: 'auto', padding: '6px 16px' }}>
+              {value ? 'True' : 'False'}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          disabled={disabled}
+          placeholder="Why? Justify your verdict…"
+          style={{ ...textField, resize: 'none', height: 48 }}
+        />
+      </div>
+    );
+  }
+
+  if (question.questionType === 'fill_blank') {
+    return (
+      <input
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); onSubmit(); } }}
+        disabled={disabled}
+        placeholder="Fill in the blank…"
+        style={textField}
+      />
+    );
+  }
+
+  if (question.questionType === 'ordering') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+        {order.map((item, i) => (
+          <div key={item} style={{
+            display: 'flex', alignItems: 'center', gap: 8, padding: '6px 10px', fontSize: 12,
+            border: '0.5px solid var(--color-border-secondary)', borderRadius: 7,
+            background: 'var(--color-background-primary)', color: 'var(--color-text-primary)',
+            opacity: disabled ? 0.5 : 1
+          }}>
+            <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)', width: 14 }}>{i + 1}</span>
+            <span style={{ flex: 1 }}>{item}</span>
+            <button onClick={() => move(i, -1)} disabled={disabled || i === 0} style={smallButton} title="Move up">↑</button>
+            <button onClick={() => move(i, 1)} disabled={disabled || i === order.length - 1} style={smallButton} title="Move down">↓</button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { KnowledgeReport, MasteryTrend, NoteSetHistory, TopicStatus } from '../types';
+
+interface Props {
+  history: NoteSetHistory[];
+  pastReports: KnowledgeReport[];
+  onViewReport: (report: KnowledgeReport) => void;
+}
+
+const DOT_COLOR: Record<TopicStatus, string> = {
+  strong: '#3B6D11',
+  weak: '#BA7517',
+  revisit: '#185FA5',
+  untested: 'var(--color-border-secondary)'
+};
+
+const STATUS_LABEL: Record<TopicStatus, string> = {
+  strong: 'Strong', weak: 'Weak', revisit: 'Revisit', untested: 'Not covered'
+};
+
+const TREND: Record<MasteryTrend, { icon: string; label: string; color: string }> = {
+  improving: { icon: '↑', label: 'Improving', color: '#3B6D11' },
+  declining: { icon: '↓', label: 'Declining', color: '#BA7517' },
+  steady:    { icon: '→', label: 'Steady', color: 'var(--color-text-tertiary)' },
+  new:       { icon: '•', label: 'New', color: 'var(--color-text-tertiary)' }
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function HistoryView({ history, pastReports, onViewReport }: Props) {
+  const reportsById = new Map(pastReports.map(r => [r.sessionId, r]));
+
+  if (history.length === 0) {
+    return <div style={{ padding: 24, fontSize: 13, color: 'var(--color-text-tertiary)', fontFamily: 'var(--font-sans)' }}>Finish a session to start tracking mastery.</div>;
+  }
+
+  return (
+    <div style={{ padding: 24, fontFamily: 'var(--font-sans)', display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {history.map(set => {
+        const improving = set.topics.filter(t => t.trend === 'improving').length;
+        const declining = set.topics.filter(t => t.trend === 'declining').length;
+        return (
+          <div key={set.noteSetId} style={{
+            border: '0.5px solid var(--color-border-tertiary)',
+            borderRadius: 'var(--border-radius-lg)',
+            background: 'var(--color-background-primary)',
+            overflow: 'hidden'
+          }}>
+            <div style={{ padding: '14px 16px', borderBottom: '0.5px solid var(--color-border-tertiary)', background: 'var(--color-background-secondary)' }}>
+              <div style={{ fontSize: 14, fontWeight: 500, color: 'var(--color-text-primary)' }}>{set.title}</div>
+              <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 3 }}>
+                {set.sessionCount} session{set.sessionCount !== 1 ? 's' : ''} · last {formatDate(set.lastDate)}
+                {improving > 0 && ` · ${improving} improving`}
+                {declining > 0 && ` · ${declining} declining`}
+              </div>
+            </div>
+            {set.topics.map(topic => {
+              const latest = topic.points[topic.points.length - 1];
+              const trend = TREND[topic.trend];
+              return (
+                <div key={topic.topicId} style={{
+                  display: 'flex', alignItems: 'center', gap: 12,
+                  padding: '10px 16px',
+                  borderBottom: '0.5px solid var(--color-border-tertiary)'
+                }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontSize: 13, color: 'var(--color-text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{topic.topicName}</div>
+                    {topic.noteSection && <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>{topic.noteSection}</div>}
+                  </div>
+                  {/* Timeline — one dot per session, oldest first */}
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    {topic.points.map(p => {
+                      const report = reportsById.get(p.sessionId);
+                      return (
+                        <span
+                          key={p.sessionId}
+                          title={`${formatDate(p.date)} — ${STATUS_LABEL[p.status]}`}
+                          onClick={() => report && onViewReport(report)}
+                          style={{ width: 9, height: 9, borderRadius: '50%', background: DOT_COLOR[p.status], cursor: report ? 'pointer' : 'default', display: 'inline-block' }}
+                        />
+                      );
+                    })}
+                  </div>
+                  <span style={{ fontSize: 11, color: 'var(--color-text-secondary)', width: 74, textAlign: 'right' }}>{STATUS_LABEL[latest.status]}</span>
+                  <span title={trend.label} style={{ fontSize: 11, fontWeight: 500, color: trend.color, width: 78, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                    {trend.icon} {trend.label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
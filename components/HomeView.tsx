@@ -1,12 +1,18 @@
 
 import React, { useRef } from 'react';
-import { KnowledgeReport } from '../types';
+import { KnowledgeReport, ReviewDeck, SessionCheckpoint } from '../types';
+import { describePacing, sessionPacing } from '../services/sessionEngine';
 
 interface Props {
   pastReports: KnowledgeReport[];
   onFileUpload: (file: File | File[]) => void;
   onViewReport: (report: KnowledgeReport) => void;
   onStartNewSession: () => void;
+  resumable?: SessionCheckpoint | null;
+  onResumeSession?: () => void;
+  onDiscardSession?: () => void;
+  dueReviews?: ReviewDeck[];
+  onStartReview?: (deck: ReviewDeck) => void;
 }
 
 const SESSION_EMOJIS = ['📘', '📗', '📙', '📕', '📓', '📔'];
@@ -34,8 +40,13 @@ function formatDate(iso: string): string {
   return `${diff} days ago`;
 }
 
-export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSession }: Props) {
+function formatClock(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSession, resumable, onResumeSession, onDiscardSession, dueReviews = [], onStartReview }: Props) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const resumePacing = resumable ? sessionPacing(resumable.session) : null;
 
   const totalSessions = pastReports.length;
   const avgStrong = totalSessions === 0 ? 0 : Math.round(
@@ -50,12 +61,36 @@ export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSe
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file) onFileUpload(file);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length) onFileUpload(files.length === 1 ? files[0] : files);
   };
 
   return (
     <div style={{ padding: 24, fontFamily: 'var(--font-sans)' }}>
+      {/* Unfinished session */}
+      {resumable && (
+        <div style={{
+          display: 'flex', alignItems: 'center', gap: 12,
+          border: '0.5px solid var(--color-border-secondary)',
+          borderRadius: 'var(--border-radius-lg)',
+          padding: '14px 16px',
+          marginBottom: 16,
+          background: 'var(--color-background-primary)'
+        }}>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>Resume session: {resumable.session.uploadTitle}</div>
+            <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>
+              {formatClock(resumable.elapsedSeconds)}{resumePacing?.kind === 'timed' ? ` of ${resumePacing.minutes} min` : resumePacing ? ` · ${describePacing(resumePacing)}` : ''}
+              {resumable.session.isOvertimeActive ? ' · overtime' : ''}
+              {' · '}{resumable.session.messages.filter(m => m.role === 'user').length} answers
+              {' · '}{Object.keys(resumable.session.topicPerformances).length}/{resumable.session.topics.length} topics assessed
+            </div>
+          </div>
+          <button onClick={onDiscardSession} style={{ padding: '6px 12px', fontSize: 12, background: 'none', border: '0.5px solid var(--color-border-secondary)', borderRadius: 6, cursor: 'pointer', color: 'var(--color-text-secondary)', fontFamily: 'var(--font-sans)' }}>Discard</button>
+          <button onClick={onResumeSession} style={{ padding: '6px 12px', fontSize: 12, fontWeight: 500, background: 'var(--color-text-primary)', border: 'none', borderRadius: 6, cursor: 'pointer', color: 'var(--color-background-primary)', fontFamily: 'var(--font-sans)' }}>Resume</button>
+        </div>
+      )}
+
       {/* Hero */}
       <div style={{
         border: '0.5px solid var(--color-border-tertiary)',
@@ -105,9 +140,9 @@ export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSe
             </svg>
           </div>
           <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)', marginBottom: 4 }}>Upload your notes to begin</div>
-          <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>PDF, images (multi-select), or text file</div>
+          <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>PDF, Word, EPUB, PowerPoint, Markdown, images (multi-select), or text file</div>
         </div>
-        <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,image/*" multiple style={{ display: 'none' }} onChange={e => {
+        <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,.markdown,.docx,.epub,.pptx,image/*" multiple style={{ display: 'none' }} onChange={e => {
           if (!e.target.files?.length) return;
           const files = Array.from(e.target.files);
           onFileUpload(files.length === 1 ? files[0] : files as any);
@@ -134,6 +169,34 @@ export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSe
         </div>
       </div>
 
+      {/* Spaced-repetition queue */}
+      {dueReviews.length > 0 && (
+        <>
+          <div style={{ fontSize: 12, fontWeight: 500, color: 'var(--color-text-secondary)', marginBottom: 12, letterSpacing: '0.02em' }}>
+            Due today · {dueReviews.reduce((acc, d) => acc + d.items.length, 0)} concepts
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 20 }}>
+            {dueReviews.map(deck => (
+              <div key={deck.deckKey} style={{
+                display: 'flex', alignItems: 'center', gap: 12,
+                padding: '12px 14px',
+                border: '0.5px solid var(--color-border-tertiary)',
+                borderRadius: 'var(--border-radius-md)',
+                background: 'var(--color-background-primary)'
+              }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>{deck.uploadTitle}</div>
+                  <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {deck.items.length} due · {deck.items.slice(0, 4).map(i => i.concept).join(', ')}{deck.items.length > 4 ? '…' : ''}
+                  </div>
+                </div>
+                <button onClick={() => onStartReview?.(deck)} style={{ padding: '6px 12px', fontSize: 12, fontWeight: 500, background: 'var(--color-text-primary)', border: 'none', borderRadius: 6, cursor: 'pointer', color: 'var(--color-background-primary)', fontFamily: 'var(--font-sans)' }}>Review</button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       {/* Recent sessions */}
       {pastReports.length > 0 && (
         <>
@@ -168,7 +231,7 @@ export function HomeView({ pastReports, onFileUpload, onViewReport, onStartNewSe
                     {SESSION_EMOJIS[i % SESSION_EMOJIS.length]}
                   </div>
                   <div style={{ flex: 1 }}>
-                    <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>{r.uploadTitle}</div>
+                    <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>{r.uploadTitle}{r.isReview ? ' · review' : ''}</div>
                     <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>
                       {formatDate(r.date)} · {r.actualDurationMinutes} min · {r.topics.length} topics
                     </div>
@@ -1,6 +1,9 @@
 
 import React, { useState } from 'react';
-import { KnowledgeReport, TopicStatus } from '../types';
+import { KnowledgeReport, TopicCalibration, TopicStatus } from '../types';
+import { hasPrerequisites } from '../services/topicGraph';
+import { describePacing } from '../services/sessionEngine';
+import { GraphTopic, TopicGraph } from './TopicGraph';
 
 interface Props {
   report: KnowledgeReport;
@@ -28,6 +31,30 @@ const SCORE_COLOR: Record<string, string> = {
   revisit: '#0C447C'
 };
 
+const RUBRIC: { key: 'accuracy' | 'completeness' | 'reasoning'; label: string }[] = [
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'completeness', label: 'Completeness' },
+  { key: 'reasoning', label: 'Reasoning' }
+];
+
+const CALIBRATION_BADGE: Record<TopicCalibration['verdict'], { bg: string; color: string; label: string }> = {
+  calibrated:     { bg: '#EAF3DE', color: '#3B6D11', label: 'Calibrated' },
+  overconfident:  { bg: '#FAEEDA', color: '#633806', label: 'Overconfident' },
+  underconfident: { bg: '#E6F1FB', color: '#0C447C', label: 'Underconfident' }
+};
+
+function CalibrationBar({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+      <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)', width: 34 }}>{label}</span>
+      <div style={{ width: 80, height: 4, borderRadius: 2, background: 'var(--color-border-tertiary)', overflow: 'hidden' }}>
+        <div style={{ width: `${Math.round(value * 100)}%`, height: '100%', background: color }} />
+      </div>
+      <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)', width: 28, textAlign: 'right' }}>{Math.round(value * 100)}%</span>
+    </div>
+  );
+}
+
 function formatDate(iso: string): string {
   return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
 }
@@ -38,6 +65,16 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
   const strong  = report.topics.filter(t => t.status === 'strong').length;
   const weak    = report.topics.filter(t => t.status === 'weak').length;
   const revisit = report.topics.filter(t => t.status === 'revisit').length;
+  // Reports from before pacing modes were all timed
+  const pacing = report.pacing ?? { kind: 'timed' as const, minutes: report.durationMinutes };
+  const misconceptions = report.misconceptions ?? [];
+  const calibration = report.calibration ?? [];
+  const confidentlyWrong = calibration.reduce((n, c) => n + c.confidentlyWrong, 0);
+  const unresolved = misconceptions.filter(m => !m.resolved);
+  const graphTopics: GraphTopic[] = report.topics.map(t => ({
+    id: t.topicId, name: t.topicName, subject: t.subject, prerequisites: t.prerequisites,
+    status: t.status, flagged: !!t.weakPrerequisites?.length
+  }));
 
   const toggleTopic = (id: string) => {
     setExpandedTopics(prev => {
@@ -55,8 +92,9 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
           {report.uploadTitle}
         </div>
         <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)' }}>
-          Session completed · {report.actualDurationMinutes} min · {report.topics.length} topics audited · {formatDate(report.date)}
+          Session completed ({pacing.kind === 'untimed' ? 'untimed' : `${describePacing(pacing)} planned`}) · {report.actualDurationMinutes} min · {report.topics.length} topics audited · {formatDate(report.date)}
           {report.overtimeUsed && ' · Overtime used'}
+          {!!report.pauses?.length && ` · Paused ${report.pauses.length}× (${report.pausedMinutes ?? 0} min, not counted)`}
         </div>
       </div>
 
@@ -86,6 +124,9 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
               const status = t.status as TopicStatus;
               const badge = BADGE[status];
               const isWeak = status === 'weak' || status === 'revisit';
+              const mastery = t.conceptMastery?.filter(m => m.answers > 0) ?? [];
+              // Graded topics open to their concept scores, strong ones included
+              const expandable = isWeak || mastery.length > 0;
               const expanded = expandedTopics.has(t.topicId);
               const concepts: string[] = (t as any).concepts || [];
 
@@ -97,8 +138,8 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
                   overflow: 'hidden'
                 }}>
                   <div
-                    style={{ display: 'flex', alignItems: 'flex-start', gap: 10, padding: '12px 14px', cursor: isWeak ? 'pointer' : 'default' }}
-                    onClick={() => isWeak && toggleTopic(t.topicId)}
+                    style={{ display: 'flex', alignItems: 'flex-start', gap: 10, padding: '12px 14px', cursor: expandable ? 'pointer' : 'default' }}
+                    onClick={() => expandable && toggleTopic(t.topicId)}
                   >
                     <div style={{ width: 8, height: 8, borderRadius: '50%', flexShrink: 0, marginTop: 4, background: DOT_CLS[status] }} />
                     <div style={{ flex: 1 }}>
@@ -107,6 +148,20 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
                       {t.noteSection && (
                         <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 3 }}>→ {t.noteSection}</div>
                       )}
+                      {/* Merged uploads: the cited section names one file; list any others that cover the topic */}
+                      {t.sources && t.sources.some(s => !t.noteSection?.startsWith(s)) && (
+                        <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>{t.noteSection ? 'Also in' : 'In'} {t.sources.filter(s => !t.noteSection?.startsWith(s)).join(', ')}</div>
+                      )}
+                      {t.weakPrerequisites?.length ? (
+                        <div style={{ fontSize: 11, color: '#633806', marginTop: 4 }}>
+                          May be weak because {t.weakPrerequisites.length === 1 ? 'its prerequisite' : 'its prerequisites'} {t.weakPrerequisites.join(', ')} {t.weakPrerequisites.length === 1 ? 'is' : 'are'} weak — start there
+                        </div>
+                      ) : null}
+                      {mastery.length > 0 && (
+                        <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 4 }}>
+                          {mastery.filter(m => m.status === 'strong').length} of {mastery.length} graded concept{mastery.length !== 1 ? 's' : ''} solid
+                        </div>
+                      )}
                     </div>
                     <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexShrink: 0 }}>
                       <span style={{
@@ -115,7 +170,7 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
                       }}>
                         {badge.label}
                       </span>
-                      {isWeak && (
+                      {expandable && (
                         <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
                           {expanded ? '▲' : '▼'}
                         </span>
@@ -123,8 +178,56 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
                     </div>
                   </div>
 
-                  {/* Expandable concepts for weak/revisit */}
-                  {isWeak && expanded && (
+                  {/* Per-concept scores from the graded answers */}
+                  {expanded && t.conceptMastery && mastery.length > 0 && (
+                    <div style={{
+                      borderTop: '0.5px solid var(--color-border-tertiary)',
+                      padding: '12px 14px 14px 32px',
+                      background: 'var(--color-background-secondary)'
+                    }}>
+                      <div style={{ fontSize: 11, fontWeight: 500, color: 'var(--color-text-tertiary)', textTransform: 'uppercase', letterSpacing: '0.06em', marginBottom: 8 }}>
+                        Concept mastery
+                      </div>
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                        {t.conceptMastery.map(m => (
+                          <div key={m.concept} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: 'var(--color-text-secondary)' }}>
+                            <div style={{ width: 6, height: 6, borderRadius: '50%', flexShrink: 0, background: DOT_CLS[m.status] }} />
+                            <span style={{ flex: 1 }}>{m.concept}</span>
+                            {m.answers > 0 ? (
+                              <>
+                                <div style={{ width: 60, height: 4, borderRadius: 2, background: 'var(--color-border-tertiary)', overflow: 'hidden', flexShrink: 0 }}>
+                                  <div style={{ width: `${Math.round(m.score * 100)}%`, height: '100%', background: DOT_CLS[m.status] }} />
+                                </div>
+                                <span style={{ fontSize: 10, color: BADGE[m.status].color, width: 44, flexShrink: 0 }}>{BADGE[m.status].label}</span>
+                                <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)', width: 52, textAlign: 'right', flexShrink: 0 }}>{m.answers} answer{m.answers !== 1 ? 's' : ''}</span>
+                              </>
+                            ) : (
+                              <span style={{ fontSize: 10, color: 'var(--color-text-tertiary)' }}>Not asked</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      {t.rubric && (
+                        <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 10 }}>
+                          {RUBRIC.map(r => `${r.label} ${t.rubric![r.key]}/2`).join(' · ')} · over {t.rubric.answers} answer{t.rubric.answers !== 1 ? 's' : ''}
+                        </div>
+                      )}
+                      {!!t.rubric?.misconceptions.length && (
+                        <div style={{ marginTop: 8 }}>
+                          <div style={{ fontSize: 11, fontWeight: 500, color: '#0C447C', marginBottom: 4 }}>Misconceptions flagged</div>
+                          {t.rubric.misconceptions.map((m, i) => (
+                            <div key={i} style={{ display: 'flex', gap: 8, fontSize: 12, color: 'var(--color-text-secondary)' }}>
+                              <span style={{ color: 'var(--color-text-tertiary)', flexShrink: 0 }}>·</span>
+                              <span>{m}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Expandable concepts for weak/revisit topics with no graded answers */}
+                  {isWeak && expanded && mastery.length === 0 && (
                     <div style={{
                       borderTop: '0.5px solid var(--color-border-tertiary)',
                       padding: '12px 14px 14px 32px',
@@ -153,6 +256,88 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
           </div>
         </div>
 
+        {/* Prerequisite map, coloured by result */}
+        {hasPrerequisites(graphTopics) && (
+          <div>
+            <div style={{ fontSize: 12, fontWeight: 500, color: 'var(--color-text-secondary)', marginBottom: 10 }}>Topic map</div>
+            <TopicGraph topics={graphTopics} />
+            <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 6 }}>
+              Foundations on the left. Dashed links mark a weak topic built on a weak prerequisite.
+            </div>
+          </div>
+        )}
+
+        {/* Misconception ledger: what's still wrong first, then what the session fixed */}
+        {misconceptions.length > 0 && (
+          <div>
+            <div style={{ fontSize: 12, fontWeight: 500, color: 'var(--color-text-secondary)', marginBottom: 10 }}>
+              Misconceptions · {misconceptions.length - unresolved.length} of {misconceptions.length} resolved
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 7 }}>
+              {[...unresolved, ...misconceptions.filter(m => m.resolved)].map((m, i) => (
+                <div key={i} style={{
+                  display: 'flex', alignItems: 'flex-start', gap: 10, padding: '10px 14px',
+                  border: '0.5px solid var(--color-border-tertiary)',
+                  borderRadius: 'var(--border-radius-md)',
+                  background: 'var(--color-background-primary)'
+                }}>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontSize: 12, color: 'var(--color-text-primary)', lineHeight: 1.5, textDecoration: m.resolved ? 'line-through' : 'none' }}>“{m.statement}”</div>
+                    <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>
+                      {m.topicName}{m.noteSection ? ` · → ${m.noteSection}` : ''}
+                    </div>
+                  </div>
+                  <span style={{
+                    fontSize: 10, fontWeight: 500, padding: '3px 8px', borderRadius: 4, flexShrink: 0,
+                    ...(m.resolved ? { background: BADGE.strong.bg, color: BADGE.strong.color } : { background: BADGE.revisit.bg, color: BADGE.revisit.color })
+                  }}>
+                    {m.resolved ? 'Resolved' : 'Unresolved'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Confidence against graded correctness, per topic */}
+        {calibration.length > 0 && (
+          <div>
+            <div style={{ fontSize: 12, fontWeight: 500, color: 'var(--color-text-secondary)', marginBottom: 4 }}>Confidence calibration</div>
+            <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginBottom: 10 }}>
+              {confidentlyWrong > 0
+                ? `${confidentlyWrong} answer${confidentlyWrong !== 1 ? 's' : ''} you were sure of came out wrong — those topics are first on the revisit list.`
+                : 'How sure you said you were, against how your answers were graded.'}
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 7 }}>
+              {calibration.map(c => {
+                const badge = CALIBRATION_BADGE[c.verdict];
+                return (
+                  <div key={c.topicId} style={{
+                    display: 'flex', alignItems: 'center', gap: 12, padding: '10px 14px',
+                    border: `0.5px solid ${c.confidentlyWrong ? '#BA7517' : 'var(--color-border-tertiary)'}`,
+                    borderRadius: 'var(--border-radius-md)',
+                    background: 'var(--color-background-primary)'
+                  }}>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontSize: 12, fontWeight: 500, color: 'var(--color-text-primary)' }}>{c.topicName}</div>
+                      <div style={{ fontSize: 11, color: c.confidentlyWrong ? '#633806' : 'var(--color-text-tertiary)', marginTop: 2 }}>
+                        {c.confidentlyWrong ? `Confidently wrong ${c.confidentlyWrong}× of ${c.answers}` : `${c.answers} rated answer${c.answers !== 1 ? 's' : ''}`}
+                      </div>
+                    </div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 3, flexShrink: 0 }}>
+                      <CalibrationBar label="Sure" value={c.confidence} color="var(--color-text-secondary)" />
+                      <CalibrationBar label="Right" value={c.correctness} color={badge.color} />
+                    </div>
+                    <span style={{ fontSize: 10, fontWeight: 500, padding: '3px 8px', borderRadius: 4, flexShrink: 0, background: badge.bg, color: badge.color }}>
+                      {badge.label}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Revisit list */}
         {report.revisitList.length > 0 && (
           <div style={{
@@ -168,6 +353,11 @@ export function ReportView({ report, onNewSession, onStudyAgain }: Props) {
                   <span style={{ color: 'var(--color-text-tertiary)', flexShrink: 0 }}>—</span>
                   <span>
                     {item.concept}
+                    {item.confidentlyWrong && (
+                      <span style={{ fontSize: 10, fontWeight: 500, padding: '1px 6px', borderRadius: 4, marginLeft: 6, background: '#FAEEDA', color: '#633806' }}>
+                        Sure but wrong
+                      </span>
+                    )}
                     {item.noteSection && <span style={{ color: 'var(--color-text-tertiary)' }}> ({item.topicName}, {item.noteSection})</span>}
                     {!item.noteSection && <span style={{ color: 'var(--color-text-tertiary)' }}> ({item.topicName})</span>}
                   </span>
@@ -1,12 +1,21 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { CheckSession, TopicStatus, PersonalityProfile } from '../types';
+import { CheckSession, TopicStatus, PersonalityProfile, ConfidenceLevel, ClosedAnswer } from '../types';
+import { pacingRemaining, sessionPacing } from '../services/sessionEngine';
+import { chooseMode } from '../services/modeController';
+import { CONFIDENCE_LEVELS, confidenceLabel } from '../services/calibration';
+import { QUESTION_TYPE_LABELS, describeKey, isClosed, optionLetter, pendingQuestion } from '../services/questionFormats';
+import { ClosedAnswerInput } from './ClosedAnswerInput';
 
 interface Props {
   session: CheckSession;
   elapsedSeconds: number;
   isAiThinking: boolean;
-  onSendMessage: (text: string) => void;
+  // The reply so far while it streams in
+  streamingReply?: string;
+  onSendMessage: (text: string, confidence?: ConfidenceLevel, closed?: ClosedAnswer) => void;
+  isPaused?: boolean;
+  onTogglePause?: () => void;
   personality?: PersonalityProfile;
   personalityActive?: boolean;
 }
@@ -35,12 +44,16 @@ function wordCount(text: string): number {
   return text.trim() ? text.trim().split(/\s+/).length : 0;
 }
 
-export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessage, personality, personalityActive }: Props) {
+export function SessionView({ session, elapsedSeconds, isAiThinking, streamingReply = '', onSendMessage, isPaused = false, onTogglePause, personality, personalityActive }: Props) {
   const [input, setInput] = useState('');
+  // Picked fresh for every answer
+  const [confidence, setConfidence] = useState<ConfidenceLevel | null>(null);
+  // The answer to a closed question, once it's complete
+  const [closedAnswer, setClosedAnswer] = useState<ClosedAnswer | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const totalSeconds = session.duration * 60;
-  const remainingSeconds = Math.max(0, totalSeconds - elapsedSeconds);
+  const pacing = sessionPacing(session);
+  const remaining = pacingRemaining(session, elapsedSeconds);
   const isOvertime = session.isOvertimeActive;
 
   const coveredCount = Object.keys(session.topicPerformances).length;
@@ -49,8 +62,7 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
   const currentTopicId = [...session.messages].reverse().find(m => m.role === 'ai' && m.topicId)?.topicId;
   const currentTopic = session.topics.find(t => t.id === currentTopicId);
 
-  const pct = totalSeconds > 0 ? elapsedSeconds / totalSeconds : 0;
-  const mode = isOvertime ? 'examiner' : pct < 0.25 ? 'friend' : pct < 0.5 ? 'tutor' : pct < 0.75 ? 'instructor' : 'examiner';
+  const { mode, reason: modeReason } = chooseMode(session, elapsedSeconds);
   const MODE_LABEL: Record<string, string> = {
     friend: personalityActive && personality ? personality.name : 'Friend',
     tutor: 'Tutor', instructor: 'Instructor', examiner: 'Examiner'
@@ -58,14 +70,26 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
   const MODE_COLOR: Record<string, string> = { friend: '#3B6D11', tutor: '#0C447C', instructor: '#6B3F9E', examiner: '#BA7517' };
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [session.messages, isAiThinking]);
+    // Follow a streaming reply without the smooth scroll lagging behind each chunk
+    messagesEndRef.current?.scrollIntoView({ behavior: streamingReply ? 'auto' : 'smooth' });
+  }, [session.messages, isAiThinking, streamingReply]);
+
+  const inputLocked = isAiThinking || isPaused;
+  const pausedBy = session.pauses?.[session.pauses.length - 1]?.reason;
+
+  // A closed question is answered with its own controls instead of the text box
+  const pending = pendingQuestion(session);
+  const closedQuestion = pending && isClosed(pending.questionType) ? pending : undefined;
+  const hasAnswer = closedQuestion ? !!closedAnswer : !!input.trim();
+
+  const canSend = hasAnswer && !!confidence && !inputLocked;
 
   const handleSend = () => {
     const text = input.trim();
-    if (!text || isAiThinking) return;
-    setInput('');
-    onSendMessage(text);
+    if (!hasAnswer || !confidence || inputLocked) return;
+    setInput(''); setConfidence(null); setClosedAnswer(null);
+    if (closedQuestion) onSendMessage('', confidence, closedAnswer!);
+    else onSendMessage(text, confidence);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -150,7 +174,10 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
             </span>
           </div>
           <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
-            <span style={{
+            <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)', maxWidth: 220, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }} title={modeReason}>
+              {modeReason}
+            </span>
+            <span title={modeReason} style={{
               fontSize: 10, fontWeight: 600, letterSpacing: '0.06em', textTransform: 'uppercase',
               padding: '3px 8px', borderRadius: 4,
               color: MODE_COLOR[mode],
@@ -166,14 +193,32 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
             border: isOvertime ? '0.5px solid var(--color-border-danger)' : '0.5px solid var(--color-border-tertiary)',
             padding: '4px 10px', borderRadius: 6
           }}>
-            {isOvertime ? 'OVERTIME' : formatTime(remainingSeconds)}
+            {isOvertime ? 'OVERTIME'
+              : pacing.kind === 'timed' ? formatTime(Math.max(0, pacing.minutes * 60 - elapsedSeconds))
+              : pacing.kind === 'questions' ? `${remaining.questions} left`
+              : formatTime(elapsedSeconds)}
           </div>
+          {onTogglePause && (
+            <button
+              onClick={onTogglePause}
+              title={isPaused ? 'Resume timer' : 'Pause timer'}
+              style={{
+                fontSize: 11, fontWeight: 500, padding: '4px 10px', borderRadius: 6,
+                background: isPaused ? 'var(--color-text-primary)' : 'var(--color-background-secondary)',
+                color: isPaused ? 'var(--color-background-primary)' : 'var(--color-text-secondary)',
+                border: '0.5px solid var(--color-border-tertiary)',
+                cursor: 'pointer', fontFamily: 'var(--font-sans)'
+              }}
+            >
+              {isPaused ? 'Resume' : 'Pause'}
+            </button>
+          )}
           </div>
         </div>
 
         {/* Messages */}
         <div style={{ flex: 1, overflowY: 'auto', padding: 16, display: 'flex', flexDirection: 'column', gap: 14 }}>
-          {session.messages.map(msg => {
+          {session.messages.map((msg, i) => {
             const isUser = msg.role === 'user';
             const showPersonality = !isUser && personalityActive && personality;
             const aiName = showPersonality ? personality!.name : 'Cross Check';
@@ -203,6 +248,7 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
                     textAlign: isUser ? 'right' : 'left'
                   }}>
                     {isUser ? 'You' : aiName}
+                    {isUser && msg.confidence && <span style={{ fontWeight: 400 }}> · {confidenceLabel(msg.confidence)}</span>}
                   </div>
                   {!isUser && msg.tag && (
                     <div style={{
@@ -215,6 +261,16 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
                       {msg.tag === 'question' ? 'Question' : 'Follow-up'}
                     </div>
                   )}
+                  {!isUser && msg.questionType && msg.questionType !== 'open' && (
+                    <div style={{
+                      display: 'inline-block', fontSize: 10, fontWeight: 500,
+                      padding: '2px 7px', borderRadius: 4, marginBottom: 5, marginLeft: msg.tag ? 5 : 0,
+                      background: 'var(--color-background-secondary)', color: 'var(--color-text-secondary)',
+                      border: '0.5px solid var(--color-border-tertiary)'
+                    }}>
+                      {QUESTION_TYPE_LABELS[msg.questionType]}
+                    </div>
+                  )}
                   <div style={{
                     fontSize: 13, lineHeight: 1.6,
                     color: 'var(--color-text-primary)',
@@ -223,7 +279,38 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
                     borderRadius: 10, padding: '10px 13px'
                   }}>
                     {msg.content}
+                    {!isUser && msg.questionType === 'mcq' && msg.question?.options && (
+                      <div style={{ marginTop: 6, display: 'flex', flexDirection: 'column', gap: 2 }}>
+                        {msg.question.options.map((option, j) => {
+                          // The key shows once the question has been answered
+                          const isKey = msg !== pending && msg.question?.answerIndex === j;
+                          return (
+                            <div key={j} style={{ fontSize: 12, fontWeight: isKey ? 500 : 400 }}>
+                              {optionLetter(j)}) {option}{isKey ? ' ✓' : ''}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {!isUser && msg.questionType === 'diagram' && msg.question?.diagram && (
+                      <pre style={{
+                        marginTop: 8, marginBottom: 0, padding: '8px 10px', fontSize: 11, lineHeight: 1.4,
+                        fontFamily: 'var(--font-mono, monospace)', overflowX: 'auto', borderRadius: 6,
+                        background: 'var(--color-background-primary)', border: '0.5px solid var(--color-border-tertiary)'
+                      }}>
+                        {msg.question.diagram}
+                      </pre>
+                    )}
                   </div>
+                  {isUser && msg.grade?.auto && (() => {
+                    const asked = session.messages[i - 1];
+                    const correct = msg.grade.accuracy === 2;
+                    return (
+                      <div style={{ fontSize: 11, marginTop: 4, textAlign: 'right', color: correct ? '#3B6D11' : '#BA7517' }}>
+                        {correct ? '✓ Correct' : `${msg.grade.accuracy === 1 ? '◐ Partly right' : '✗ Not quite'} · Key: ${describeKey(asked?.questionType, asked?.question)}`}
+                      </div>
+                    );
+                  })()}
                 </div>
               </div>
             );
@@ -245,25 +332,42 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
                   color: 'var(--color-text-primary)'
                 }}>CC</div>
               )}
-              <div>
+              <div style={{ maxWidth: '76%' }}>
                 <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', fontWeight: 500, letterSpacing: '0.04em', marginBottom: 4 }}>
                   {personalityActive && personality ? personality.name : 'Cross Check'}
                 </div>
-                <div style={{
-                  display: 'flex', alignItems: 'center', gap: 4,
-                  padding: '10px 13px',
-                  background: 'var(--color-background-secondary)',
-                  border: '0.5px solid var(--color-border-tertiary)',
-                  borderRadius: 10, width: 'fit-content'
-                }}>
-                  {[0, 0.2, 0.4].map((delay, i) => (
-                    <span key={i} style={{
-                      width: 5, height: 5, background: 'var(--color-text-tertiary)',
-                      borderRadius: '50%', display: 'inline-block',
-                      animation: `cc-bounce 1.2s ${delay}s infinite`
+                {streamingReply ? (
+                  <div style={{
+                    fontSize: 13, lineHeight: 1.6,
+                    color: 'var(--color-text-primary)',
+                    background: 'var(--color-background-secondary)',
+                    border: '0.5px solid var(--color-border-tertiary)',
+                    borderRadius: 10, padding: '10px 13px'
+                  }}>
+                    {streamingReply}
+                    <span style={{
+                      display: 'inline-block', width: 6, height: 13, marginLeft: 2,
+                      verticalAlign: 'text-bottom', background: 'var(--color-text-tertiary)',
+                      animation: 'cc-caret 1s steps(1) infinite'
                     }} />
-                  ))}
-                </div>
+                  </div>
+                ) : (
+                  <div style={{
+                    display: 'flex', alignItems: 'center', gap: 4,
+                    padding: '10px 13px',
+                    background: 'var(--color-background-secondary)',
+                    border: '0.5px solid var(--color-border-tertiary)',
+                    borderRadius: 10, width: 'fit-content'
+                  }}>
+                    {[0, 0.2, 0.4].map((delay, i) => (
+                      <span key={i} style={{
+                        width: 5, height: 5, background: 'var(--color-text-tertiary)',
+                        borderRadius: '50%', display: 'inline-block',
+                        animation: `cc-bounce 1.2s ${delay}s infinite`
+                      }} />
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -275,56 +379,113 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
           borderTop: '0.5px solid var(--color-border-tertiary)',
           padding: '12px 16px', flexShrink: 0
         }}>
+          {isPaused && (
+            <div style={{
+              display: 'flex', alignItems: 'center', justifyContent: 'space-between',
+              fontSize: 12, color: 'var(--color-text-secondary)',
+              background: 'var(--color-background-secondary)',
+              border: '0.5px solid var(--color-border-tertiary)',
+              borderRadius: 8, padding: '8px 12px', marginBottom: 10
+            }}>
+              <span>{pausedBy === 'hidden' ? 'Paused while you were away' : 'On a break'} — the clock is stopped and this time won't count toward the session.</span>
+              {onTogglePause && (
+                <button onClick={onTogglePause} style={{ fontSize: 11, fontWeight: 500, padding: '4px 10px', borderRadius: 6, background: 'var(--color-text-primary)', color: 'var(--color-background-primary)', border: 'none', cursor: 'pointer', fontFamily: 'var(--font-sans)' }}>
+                  Resume
+                </button>
+              )}
+            </div>
+          )}
           <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginBottom: 7 }}>
-            Answer in full sentences — explain your reasoning, not just the fact
+            {closedQuestion
+              ? `${QUESTION_TYPE_LABELS[closedQuestion.questionType!]} — ${closedQuestion.questionType === 'true_false' ? 'pick a verdict and say why' : closedQuestion.questionType === 'ordering' ? 'move the items into the right order' : 'graded against the answer key as soon as you send'}`
+              : 'Answer in full sentences — explain your reasoning, not just the fact'}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 7 }}>
+            <span style={{ fontSize: 11, color: hasAnswer && !confidence ? 'var(--color-text-primary)' : 'var(--color-text-tertiary)', fontWeight: hasAnswer && !confidence ? 500 : 400 }}>
+              How sure are you?
+            </span>
+            {CONFIDENCE_LEVELS.map(({ level, label }) => {
+              const selected = confidence === level;
+              return (
+                <button
+                  key={level}
+                  onClick={() => setConfidence(selected ? null : level)}
+                  disabled={inputLocked}
+                  style={{
+                    fontSize: 11, padding: '3px 9px', borderRadius: 12,
+                    fontFamily: 'var(--font-sans)',
+                    cursor: inputLocked ? 'not-allowed' : 'pointer',
+                    background: selected ? 'var(--color-text-primary)' : 'transparent',
+                    color: selected ? 'var(--color-background-primary)' : 'var(--color-text-secondary)',
+                    border: `0.5px solid ${selected ? 'var(--color-text-primary)' : 'var(--color-border-secondary)'}`,
+                    opacity: inputLocked ? 0.4 : 1
+                  }}
+                >
+                  {level} · {label}
+                </button>
+              );
+            })}
           </div>
           <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
-            <textarea
-              value={input}
-              onChange={e => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              disabled={isAiThinking}
-              placeholder="Type your answer…"
-              style={{
-                flex: 1, resize: 'none', fontSize: 13,
-                fontFamily: 'var(--font-sans)', lineHeight: 1.5,
-                padding: '9px 12px',
-                border: '0.5px solid var(--color-border-secondary)',
-                borderRadius: 8,
-                background: 'var(--color-background-primary)',
-                color: 'var(--color-text-primary)',
-                height: 60, outline: 'none',
-                opacity: isAiThinking ? 0.5 : 1
-              }}
-              onFocus={e => (e.target.style.borderColor = 'var(--color-border-primary)')}
-              onBlur={e => (e.target.style.borderColor = 'var(--color-border-secondary)')}
-            />
+            {closedQuestion ? (
+              <div style={{ flex: 1 }}>
+                <ClosedAnswerInput
+                  key={closedQuestion.id}
+                  question={closedQuestion}
+                  disabled={inputLocked}
+                  onChange={setClosedAnswer}
+                  onSubmit={handleSend}
+                />
+              </div>
+            ) : (
+              <textarea
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={inputLocked}
+                placeholder={isPaused ? 'Paused' : 'Type your answer…'}
+                style={{
+                  flex: 1, resize: 'none', fontSize: 13,
+                  fontFamily: 'var(--font-sans)', lineHeight: 1.5,
+                  padding: '9px 12px',
+                  border: '0.5px solid var(--color-border-secondary)',
+                  borderRadius: 8,
+                  background: 'var(--color-background-primary)',
+                  color: 'var(--color-text-primary)',
+                  height: 60, outline: 'none',
+                  opacity: inputLocked ? 0.5 : 1
+                }}
+                onFocus={e => (e.target.style.borderColor = 'var(--color-border-primary)')}
+                onBlur={e => (e.target.style.borderColor = 'var(--color-border-secondary)')}
+              />
+            )}
             <div style={{ display: 'flex', flexDirection: 'column', gap: 5 }}>
               <button
                 onClick={handleSend}
-                disabled={!input.trim() || isAiThinking}
+                disabled={!canSend}
+                title={hasAnswer && !confidence ? 'Pick how sure you are first' : undefined}
                 style={{
                   padding: '0 14px', height: 38, borderRadius: 8,
                   background: 'var(--color-text-primary)',
                   color: 'var(--color-background-primary)',
                   fontSize: 12, fontWeight: 500,
-                  cursor: input.trim() && !isAiThinking ? 'pointer' : 'not-allowed',
-                  opacity: input.trim() && !isAiThinking ? 1 : 0.4,
+                  cursor: canSend ? 'pointer' : 'not-allowed',
+                  opacity: canSend ? 1 : 0.4,
                   border: 'none', fontFamily: 'var(--font-sans)', whiteSpace: 'nowrap'
                 }}
               >
                 Send
               </button>
               <button
-                onClick={() => { setInput(''); onSendMessage("I don't know"); }}
-                disabled={isAiThinking}
+                onClick={() => { setInput(''); setConfidence(null); setClosedAnswer(null); onSendMessage("I don't know", 1); }}
+                disabled={inputLocked}
                 style={{
                   padding: '0 14px', height: 26, borderRadius: 6,
                   background: 'transparent',
                   color: 'var(--color-text-tertiary)',
                   fontSize: 11, fontWeight: 500,
-                  cursor: isAiThinking ? 'not-allowed' : 'pointer',
-                  opacity: isAiThinking ? 0.4 : 1,
+                  cursor: inputLocked ? 'not-allowed' : 'pointer',
+                  opacity: inputLocked ? 0.4 : 1,
                   border: '0.5px solid var(--color-border-tertiary)',
                   fontFamily: 'var(--font-sans)', whiteSpace: 'nowrap'
                 }}
@@ -335,9 +496,9 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
           </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: 7 }}>
             <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>
-              {words} word{words !== 1 ? 's' : ''}
+              {closedQuestion ? '' : `${words} word${words !== 1 ? 's' : ''}`}
             </span>
-            <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>Full sentences only</span>
+            <span style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>{closedQuestion ? 'Confidence still counts' : 'Full sentences only'}</span>
           </div>
         </div>
       </div>
@@ -347,6 +508,9 @@ export function SessionView({ session, elapsedSeconds, isAiThinking, onSendMessa
           0%,60%,100% { transform: translateY(0); }
           30% { transform: translateY(-4px); }
         }
+        @keyframes cc-caret {
+          50% { opacity: 0; }
+        }
       `}</style>
     </div>
   );
@@ -1,26 +1,103 @@
 
-import React, { useRef } from 'react';
-import { AppState, ExtractedTopic, SessionDuration } from '../types';
+import React, { useRef, useState } from 'react';
+import { AppState, ExtractedTopic, SessionPacing } from '../types';
+import type { IngestProgress } from '../services/ingestion';
+import type { ExtractionProgress } from '../services/topicExtraction';
+import { sessionTopics } from '../services/topicEditing';
+import { TopicEditor } from './TopicEditor';
+import { TopicGraph } from './TopicGraph';
+import { hasPrerequisites, subjectGroups } from '../services/topicGraph';
 
 interface Props {
   appState: AppState;
   uploadedFile: File | null;
+  uploadProgress?: IngestProgress | null;
+  uploadSources?: string[];
+  extractProgress?: ExtractionProgress | null;
   noteTitle: string;
   extractedTopics: ExtractedTopic[];
-  selectedDuration: SessionDuration;
-  onDurationChange: (d: SessionDuration) => void;
+  selectedPacing: SessionPacing;
+  onPacingChange: (p: SessionPacing) => void;
   onFileUpload: (file: File | File[]) => void;
+  onTopicsChange: (topics: ExtractedTopic[]) => void;
   onBeginSession: () => void;
 }
 
-const DURATIONS: { value: SessionDuration; label: string; desc: string }[] = [
+const DURATIONS: { value: number; label: string; desc: string }[] = [
   { value: 15, label: '15', desc: 'Surface audit' },
   { value: 30, label: '30', desc: 'Standard' },
   { value: 45, label: '45', desc: 'Deep dive' },
   { value: 60, label: '60', desc: 'Full audit' },
 ];
 
-function Card({ title, children }: { title: string; children: React.ReactNode }) {
+const QUESTION_COUNTS: { value: number; label: string; desc: string }[] = [
+  { value: 5, label: '5', desc: 'Quick check' },
+  { value: 10, label: '10', desc: 'Standard' },
+  { value: 20, label: '20', desc: 'Deep dive' },
+  { value: 30, label: '30', desc: 'Full audit' },
+];
+
+const PACING_KINDS: { kind: SessionPacing['kind']; label: string }[] = [
+  { kind: 'timed', label: 'Timed' },
+  { kind: 'questions', label: 'Questions' },
+  { kind: 'untimed', label: 'Untimed' },
+];
+
+const MAX_MINUTES = 240;
+const MAX_QUESTIONS = 100;
+
+function OptionGrid({ options, selected, unit, onSelect }: { options: typeof DURATIONS; selected: number | null; unit: string; onSelect: (value: number) => void }) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4,1fr)', gap: 8 }}>
+      {options.map(d => {
+        const sel = selected === d.value;
+        return (
+          <div
+            key={d.value}
+            onClick={() => onSelect(d.value)}
+            style={{
+              padding: '12px 8px',
+              border: sel ? '0.5px solid var(--color-border-primary)' : '0.5px solid var(--color-border-tertiary)',
+              borderRadius: 'var(--border-radius-md)',
+              textAlign: 'center',
+              cursor: 'pointer',
+              background: sel ? 'var(--color-background-secondary)' : 'transparent',
+              transition: 'all 0.15s'
+            }}
+          >
+            <span style={{ fontSize: 18, fontWeight: 500, display: 'block', letterSpacing: '-0.02em', color: sel ? 'var(--color-text-primary)' : 'var(--color-text-secondary)' }}>{d.label}</span>
+            <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', marginTop: 3 }}>{unit}</div>
+            <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', marginTop: 6, lineHeight: 1.4 }}>{d.desc}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Any whole number in range; presets are just shortcuts
+function CustomAmount({ value, max, unit, onChange }: { value: number; max: number; unit: string; onChange: (value: number) => void }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, color: 'var(--color-text-secondary)', marginTop: 10 }}>
+      Custom
+      <input
+        type="number" min={1} max={max} value={value}
+        onChange={e => {
+          const n = Math.round(Number(e.target.value));
+          if (n >= 1) onChange(Math.min(max, n));
+        }}
+        style={{
+          width: 64, padding: '4px 7px', fontSize: 12, borderRadius: 5,
+          border: '0.5px solid var(--color-border-tertiary)', background: 'var(--color-background-primary)',
+          color: 'var(--color-text-primary)', fontFamily: 'var(--font-sans)'
+        }}
+      />
+      {unit}
+    </label>
+  );
+}
+
+function Card({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
   return (
     <div style={{
       border: '0.5px solid var(--color-border-tertiary)',
@@ -28,13 +105,58 @@ function Card({ title, children }: { title: string; children: React.ReactNode })
       padding: 20,
       marginBottom: 16
     }}>
-      <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)', marginBottom: 14 }}>{title}</div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 14 }}>
+        <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>{title}</div>
+        {action}
+      </div>
       {children}
     </div>
   );
 }
 
-export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics, selectedDuration, onDurationChange, onFileUpload, onBeginSession }: Props) {
+function ProgressBar({ done, heading, detail }: { done: number; heading?: string; detail: React.ReactNode }) {
+  return (
+    <div style={{ width: 220, display: 'flex', flexDirection: 'column', gap: 6, alignItems: 'center' }}>
+      {heading && (
+        <div style={{ fontSize: 12, color: 'var(--color-text-secondary)', maxWidth: '100%', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{heading}</div>
+      )}
+      <div style={{ width: '100%', height: 4, borderRadius: 2, background: 'var(--color-background-secondary)', overflow: 'hidden' }}>
+        <div style={{ width: `${Math.round(done * 100)}%`, height: '100%', background: 'var(--color-text-primary)', transition: 'width 0.2s' }} />
+      </div>
+      <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)' }}>{detail}</div>
+    </div>
+  );
+}
+
+function UploadProgressBar({ progress }: { progress: IngestProgress }) {
+  const withinFile = (progress.page - 1 + (progress.fraction ?? 0)) / progress.pages;
+  const done = progress.file ? (progress.file.index - 1 + withinFile) / progress.file.count : withinFile;
+  return (
+    <ProgressBar
+      done={done}
+      heading={progress.file && `File ${progress.file.index} of ${progress.file.count} · ${progress.file.name}`}
+      detail={<>
+        {progress.pages > 1 || progress.stage === 'ocr' ? <>{progress.stage === 'ocr' ? 'Scanned page' : 'Page'} {progress.page} of {progress.pages}</> : 'Reading…'}
+        {progress.fraction !== undefined && progress.stage === 'ocr' ? ` · ${Math.round(progress.fraction * 100)}%` : ''}
+      </>}
+    />
+  );
+}
+
+export function SetupView({ appState, uploadedFile, uploadProgress, uploadSources = [], extractProgress, noteTitle, extractedTopics, selectedPacing, onPacingChange, onFileUpload, onTopicsChange, onBeginSession }: Props) {
+  const [editingTopics, setEditingTopics] = useState(false);
+  // Remembered so switching pacing kinds and back keeps the last amount chosen
+  const [minutes, setMinutes] = useState(selectedPacing.kind === 'timed' ? selectedPacing.minutes : 30);
+  const [questionCount, setQuestionCount] = useState(selectedPacing.kind === 'questions' ? selectedPacing.count : 10);
+  const chooseMinutes = (m: number) => { setMinutes(m); onPacingChange({ kind: 'timed', minutes: m }); };
+  const chooseQuestions = (n: number) => { setQuestionCount(n); onPacingChange({ kind: 'questions', count: n }); };
+  const chooseKind = (kind: SessionPacing['kind']) => {
+    if (kind === 'timed') chooseMinutes(minutes);
+    else if (kind === 'questions') chooseQuestions(questionCount);
+    else onPacingChange({ kind: 'untimed' });
+  };
+  const audited = sessionTopics(extractedTopics);
+  const auditedCount = audited.length;
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isLoading = appState === AppState.UPLOADING || appState === AppState.PROCESSING;
   const isReady = appState === AppState.SESSION_SETUP;
@@ -48,9 +170,21 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
           animation: 'spin 0.8s linear infinite'
         }} />
         <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>
-          {appState === AppState.UPLOADING ? 'Reading file…' : 'Extracting topics from your notes…'}
+          {appState === AppState.PROCESSING ? 'Extracting topics from your notes…'
+            : uploadProgress?.stage === 'ocr' ? 'Reading scanned pages on this device…'
+            : 'Reading file…'}
         </div>
-        <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)' }}>This takes a few seconds</div>
+        {appState === AppState.PROCESSING && extractProgress ? (
+          // Long notes: one extraction call per part, then a merge step
+          <ProgressBar
+            done={extractProgress.stage === 'reduce' ? 1 : extractProgress.done / extractProgress.total}
+            detail={extractProgress.stage === 'reduce' ? 'Merging topics across parts…' : `Part ${Math.min(extractProgress.done + 1, extractProgress.total)} of ${extractProgress.total}`}
+          />
+        ) : uploadProgress && (uploadProgress.pages > 1 || uploadProgress.stage === 'ocr' || uploadProgress.file) ? (
+          <UploadProgressBar progress={uploadProgress} />
+        ) : (
+          <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)' }}>This takes a few seconds</div>
+        )}
         <style>{`@keyframes spin{to{transform:rotate(360deg)}}`}</style>
       </div>
     );
@@ -64,7 +198,7 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
           <div
             onClick={() => fileInputRef.current?.click()}
             onDragOver={e => e.preventDefault()}
-            onDrop={e => { e.preventDefault(); const f = e.dataTransfer.files[0]; if (f) onFileUpload(f); }}
+            onDrop={e => { e.preventDefault(); const files = Array.from(e.dataTransfer.files); if (files.length) onFileUpload(files.length === 1 ? files[0] : files); }}
             style={{
               border: '0.5px dashed var(--color-border-primary)',
               borderRadius: 'var(--border-radius-md)',
@@ -77,9 +211,9 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
             onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
           >
             <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)', marginBottom: 4 }}>Drop your notes here or click to browse</div>
-            <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>PDF, images (multi-select), or text file</div>
+            <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)' }}>PDF, Word, EPUB, PowerPoint, Markdown, images (multi-select), or text file</div>
           </div>
-          <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,image/*" multiple style={{ display: 'none' }} onChange={e => {
+          <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,.markdown,.docx,.epub,.pptx,image/*" multiple style={{ display: 'none' }} onChange={e => {
             if (!e.target.files?.length) return;
             const files = Array.from(e.target.files);
             onFileUpload(files.length === 1 ? files[0] : files as any);
@@ -108,11 +242,16 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
             borderRadius: 6,
             display: 'flex', alignItems: 'center', justifyContent: 'center',
             fontSize: 13, flexShrink: 0
-          }}>{uploadedFile?.type?.startsWith('image/') ? '🖼️' : '📄'}</div>
-          <div style={{ flex: 1 }}>
+          }}>{uploadSources.length > 1 ? '🗂️' : uploadedFile?.type?.startsWith('image/') ? '🖼️' : '📄'}</div>
+          <div style={{ flex: 1, minWidth: 0 }}>
             <div style={{ fontSize: 13, fontWeight: 500, color: 'var(--color-text-primary)' }}>
-              {uploadedFile?.name || noteTitle}
+              {uploadSources.length > 1 ? `${uploadSources.length} files combined` : uploadedFile?.name || noteTitle}
             </div>
+            {uploadSources.length > 1 && (
+              <div title={uploadSources.join('\n')} style={{ fontSize: 11, color: 'var(--color-text-secondary)', marginTop: 2, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {uploadSources.join(' · ')}
+              </div>
+            )}
             <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 2 }}>
               {extractedTopics.length} topics detected
             </div>
@@ -129,7 +268,7 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
           >
             Replace
           </button>
-          <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,image/*" multiple style={{ display: 'none' }} onChange={e => {
+          <input ref={fileInputRef} type="file" accept=".pdf,.txt,.md,.markdown,.docx,.epub,.pptx,image/*" multiple style={{ display: 'none' }} onChange={e => {
             if (!e.target.files?.length) return;
             const files = Array.from(e.target.files);
             onFileUpload(files.length === 1 ? files[0] : files as any);
@@ -138,52 +277,85 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
       </Card>
 
       {/* Topics card */}
-      <Card title="Topics detected">
+      <Card title="Topics detected" action={!editingTopics && extractedTopics.length > 0 && (
+        <button onClick={() => setEditingTopics(true)} style={{
+          fontSize: 11, padding: '3px 9px', borderRadius: 5, cursor: 'pointer',
+          border: '0.5px solid var(--color-border-tertiary)', background: 'transparent',
+          color: 'var(--color-text-secondary)', fontFamily: 'var(--font-sans)'
+        }}>Edit</button>
+      )}>
         <div style={{ fontSize: 12, color: 'var(--color-text-tertiary)', marginBottom: 10 }}>
           {extractedTopics.length} topics extracted from your notes
+          {auditedCount < extractedTopics.length && ` · ${extractedTopics.length - auditedCount} skipped`}
+          {extractedTopics.some(t => t.priority) && ' · ★ priority topics get more time'}
         </div>
-        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 7 }}>
-          {extractedTopics.map(t => (
-            <span key={t.id} style={{
-              fontSize: 12, padding: '5px 11px', borderRadius: 20,
-              border: '0.5px solid var(--color-border-tertiary)',
-              color: 'var(--color-text-secondary)',
-              background: 'var(--color-background-primary)'
-            }}>
-              {t.name}
-            </span>
-          ))}
-        </div>
+        {editingTopics ? (
+          <TopicEditor topics={extractedTopics} onChange={onTopicsChange} onDone={() => setEditingTopics(false)} />
+        ) : (
+          <>
+            {/* Subject → topic tree; a single unnamed subject is just the flat list */}
+            {subjectGroups(extractedTopics).map(group => (
+              <div key={group.subject} style={{ marginBottom: 8 }}>
+                {group.subject && (
+                  <div style={{ fontSize: 10, fontWeight: 500, color: 'var(--color-text-tertiary)', textTransform: 'uppercase', letterSpacing: '0.06em', marginBottom: 6 }}>{group.subject}</div>
+                )}
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 7 }}>
+                  {group.topics.map(t => (
+                    <span key={t.id} title={[t.concepts.join(', '), t.sources?.length ? `From ${t.sources.join(', ')}` : ''].filter(Boolean).join('\n') || undefined} style={{
+                      fontSize: 12, padding: '5px 11px', borderRadius: 20,
+                      border: t.priority ? '0.5px solid #BA7517' : '0.5px solid var(--color-border-tertiary)',
+                      color: t.excluded ? 'var(--color-text-tertiary)' : 'var(--color-text-secondary)',
+                      textDecoration: t.excluded ? 'line-through' : 'none',
+                      background: 'var(--color-background-primary)'
+                    }}>
+                      {t.priority && <span style={{ color: '#BA7517', marginRight: 4 }}>★</span>}
+                      {t.name}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {hasPrerequisites(audited) && (
+              <div style={{ marginTop: 14 }}>
+                <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginBottom: 8 }}>
+                  Prerequisites — the session audits foundations (left) before the topics that build on them
+                </div>
+                <TopicGraph topics={audited} />
+              </div>
+            )}
+          </>
+        )}
       </Card>
 
-      {/* Duration card */}
-      <Card title="Session duration">
-        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4,1fr)', gap: 8 }}>
-          {DURATIONS.map(d => {
-            const sel = selectedDuration === d.value;
-            return (
-              <div
-                key={d.value}
-                onClick={() => onDurationChange(d.value)}
-                style={{
-                  padding: '12px 8px',
-                  border: sel ? '0.5px solid var(--color-border-primary)' : '0.5px solid var(--color-border-tertiary)',
-                  borderRadius: 'var(--border-radius-md)',
-                  textAlign: 'center',
-                  cursor: 'pointer',
-                  background: sel ? 'var(--color-background-secondary)' : 'transparent',
-                  transition: 'all 0.15s'
-                }}
-              >
-                <span style={{ fontSize: 18, fontWeight: 500, display: 'block', letterSpacing: '-0.02em', color: sel ? 'var(--color-text-primary)' : 'var(--color-text-secondary)' }}>{d.label}</span>
-                <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', marginTop: 3 }}>min</div>
-                <div style={{ fontSize: 10, color: 'var(--color-text-tertiary)', marginTop: 6, lineHeight: 1.4 }}>{d.desc}</div>
-              </div>
-            );
-          })}
+      {/* Pacing card */}
+      <Card title="Session length" action={
+        <div style={{ display: 'flex', gap: 2, padding: 2, borderRadius: 6, background: 'var(--color-background-secondary)' }}>
+          {PACING_KINDS.map(k => (
+            <button key={k.kind} onClick={() => chooseKind(k.kind)} style={{
+              fontSize: 11, padding: '3px 9px', borderRadius: 5, cursor: 'pointer', border: 'none',
+              background: selectedPacing.kind === k.kind ? 'var(--color-background-primary)' : 'transparent',
+              color: selectedPacing.kind === k.kind ? 'var(--color-text-primary)' : 'var(--color-text-tertiary)',
+              fontFamily: 'var(--font-sans)'
+            }}>{k.label}</button>
+          ))}
         </div>
+      }>
+        {selectedPacing.kind === 'timed' && (
+          <>
+            <OptionGrid options={DURATIONS} selected={selectedPacing.minutes} unit="min" onSelect={chooseMinutes} />
+            <CustomAmount value={selectedPacing.minutes} max={MAX_MINUTES} unit="minutes" onChange={chooseMinutes} />
+          </>
+        )}
+        {selectedPacing.kind === 'questions' && (
+          <>
+            <OptionGrid options={QUESTION_COUNTS} selected={selectedPacing.count} unit="questions" onSelect={chooseQuestions} />
+            <CustomAmount value={selectedPacing.count} max={MAX_QUESTIONS} unit="questions" onChange={chooseQuestions} />
+          </>
+        )}
         <div style={{ fontSize: 11, color: 'var(--color-text-tertiary)', marginTop: 10 }}>
-          Session extends automatically if a weakness is detected near the end
+          {selectedPacing.kind === 'timed' && 'Session extends automatically if a weakness is detected near the end'}
+          {selectedPacing.kind === 'questions' && 'The tone escalates with each answer instead of the clock. Extra questions follow if a weakness is still open after the last one'}
+          {selectedPacing.kind === 'untimed' && 'No clock. The tone escalates as topics are assessed, and the session ends once every topic has a rating — or whenever you end it'}
         </div>
       </Card>
 
@@ -191,9 +363,12 @@ export function SetupView({ appState, uploadedFile, noteTitle, extractedTopics,
       <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
         <button
           onClick={onBeginSession}
+          disabled={auditedCount === 0}
+          title={auditedCount === 0 ? 'Include at least one topic' : undefined}
           style={{
             padding: '7px 14px', borderRadius: 6, fontSize: 12, fontWeight: 500,
-            cursor: 'pointer',
+            cursor: auditedCount === 0 ? 'not-allowed' : 'pointer',
+            opacity: auditedCount === 0 ? 0.4 : 1,
             background: 'var(--color-text-primary)',
             color: 'var(--color-background-primary)',
             border: '0.5px solid var(--color-text-primary)',
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ExtractedTopic } from '../types';
+import { addTopic, deleteTopic, mergeTopics, moveTopic, renameTopic, setConcepts, splitTopic, toggleExcluded, togglePriority } from '../services/topicEditing';
+
+interface Props {
+  topics: ExtractedTopic[];
+  onChange: (topics: ExtractedTopic[]) => void;
+  onDone: () => void;
+}
+
+const smallButton: React.CSSProperties = {
+  padding: '3px 7px', fontSize: 11, lineHeight: 1.3,
+  border: '0.5px solid var(--color-border-tertiary)', borderRadius: 5,
+  background: 'var(--color-background-primary)', color: 'var(--color-text-secondary)',
+  cursor: 'pointer', fontFamily: 'var(--font-sans)'
+};
+
+const textInput: React.CSSProperties = {
+  flex: 1, minWidth: 0, padding: '4px 7px', fontSize: 12,
+  border: '0.5px solid var(--color-border-tertiary)', borderRadius: 5,
+  background: 'var(--color-background-primary)', color: 'var(--color-text-primary)',
+  fontFamily: 'var(--font-sans)', outline: 'none'
+};
+
+function TopicRow({ topic, index, count, selected, onSelect, onChange, topics }: {
+  topic: ExtractedTopic;
+  index: number;
+  count: number;
+  selected: boolean;
+  onSelect: () => void;
+  onChange: (topics: ExtractedTopic[]) => void;
+  topics: ExtractedTopic[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(topic.name);
+  const [newConcept, setNewConcept] = useState('');
+  const [splitting, setSplitting] = useState<string[]>([]);
+  const [splitName, setSplitName] = useState('');
+
+  const commitName = () => { if (name.trim() && name !== topic.name) onChange(renameTopic(topics, topic.id, name)); else setName(topic.name); };
+  const addConcept = () => {
+    if (!newConcept.trim()) return;
+    onChange(setConcepts(topics, topic.id, [...topic.concepts, newConcept]));
+    setNewConcept('');
+  };
+  const split = () => {
+    onChange(splitTopic(topics, topic.id, splitting, splitName || `${topic.name} (part 2)`));
+    setSplitting([]); setSplitName('');
+  };
+
+  return (
+    <div style={{ borderBottom: '0.5px solid var(--color-border-tertiary)', padding: '8px 0', opacity: topic.excluded ? 0.5 : 1 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <input type="checkbox" checked={selected} onChange={onSelect} title="Select to merge" />
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          style={{ ...textInput, textDecoration: topic.excluded ? 'line-through' : 'none' }}
+        />
+        <button onClick={() => setOpen(o => !o)} style={smallButton} title="Edit concepts">{topic.concepts.length} concepts {open ? '▴' : '▾'}</button>
+        <button
+          onClick={() => onChange(togglePriority(topics, topic.id))}
+          style={{ ...smallButton, color: topic.priority ? '#BA7517' : 'var(--color-text-tertiary)' }}
+          title={topic.priority ? 'Priority — gets more time' : 'Mark as priority'}
+        >★</button>
+        <button
+          onClick={() => onChange(toggleExcluded(topics, topic.id))}
+          style={smallButton}
+          title={topic.excluded ? 'Include in the audit' : 'Leave out of the audit'}
+        >{topic.excluded ? 'Include' : 'Skip'}</button>
+        <button onClick={() => onChange(moveTopic(topics, topic.id, -1))} disabled={index === 0} style={smallButton} title="Move up">↑</button>
+        <button onClick={() => onChange(moveTopic(topics, topic.id, 1))} disabled={index === count - 1} style={smallButton} title="Move down">↓</button>
+        <button onClick={() => onChange(deleteTopic(topics, topic.id))} style={{ ...smallButton, color: '#f87171' }} title="Delete topic">×</button>
+      </div>
+
+      {open && (
+        <div style={{ padding: '8px 0 2px 24px', display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 5 }}>
+            {topic.concepts.map(c => {
+              const marked = splitting.includes(c);
+              return (
+                <span key={c} style={{
+                  display: 'inline-flex', alignItems: 'center', gap: 4,
+                  fontSize: 11, padding: '3px 8px', borderRadius: 12,
+                  border: marked ? '0.5px solid var(--color-border-primary)' : '0.5px solid var(--color-border-tertiary)',
+                  background: marked ? 'var(--color-background-secondary)' : 'transparent',
+                  color: 'var(--color-text-secondary)', cursor: 'pointer'
+                }} onClick={() => setSplitting(s => marked ? s.filter(x => x !== c) : [...s, c])} title="Select to split into a new topic">
+                  {c}
+                  <span
+                    onClick={e => { e.stopPropagation(); onChange(setConcepts(topics, topic.id, topic.concepts.filter(x => x !== c))); }}
+                    style={{ color: 'var(--color-text-tertiary)' }}
+                    title="Remove concept"
+                  >×</span>
+                </span>
+              );
+            })}
+          </div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <input value={newConcept} onChange={e => setNewConcept(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addConcept(); }} placeholder="Add a concept" style={textInput} />
+            <button onClick={addConcept} style={smallButton}>Add</button>
+          </div>
+          {splitting.length > 0 && (
+            <div style={{ display: 'flex', gap: 6 }}>
+              <input value={splitName} onChange={e => setSplitName(e.target.value)} placeholder={`${topic.name} (part 2)`} style={textInput} />
+              <button onClick={split} style={smallButton}>Split {splitting.length} into new topic</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TopicEditor({ topics, onChange, onDone }: Props) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newTopic, setNewTopic] = useState('');
+
+  const merge = () => { onChange(mergeTopics(topics, selected)); setSelected([]); };
+  const add = () => { onChange(addTopic(topics, newTopic)); setNewTopic(''); };
+
+  return (
+    <div>
+      {topics.map((t, i) => (
+        // Keyed on id and name so an outside rename (merge) resets the row's draft
+        <TopicRow
+          key={`${t.id}:${t.name}`}
+          topic={t}
+          index={i}
+          count={topics.length}
+          topics={topics}
+          selected={selected.includes(t.id)}
+          onSelect={() => setSelected(s => s.includes(t.id) ? s.filter(x => x !== t.id) : [...s, t.id])}
+          onChange={onChange}
+        />
+      ))}
+      <div style={{ display: 'flex', gap: 6, marginTop: 10 }}>
+        <input value={newTopic} onChange={e => setNewTopic(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') add(); }} placeholder="Add a topic the notes cover" style={textInput} />
+        <button onClick={add} style={smallButton}>Add topic</button>
+        <button onClick={merge} disabled={selected.length < 2} style={{ ...smallButton, opacity: selected.length < 2 ? 0.5 : 1 }}>Merge {selected.length > 1 ? selected.length : ''} selected</button>
+        <button onClick={onDone} style={{ ...smallButton, color: 'var(--color-text-primary)', fontWeight: 500 }}>Done</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React from 'react';
+import { TopicStatus } from '../types';
+import { foundationsFirst, subjectGroups, topicDepths } from '../services/topicGraph';
+
+export interface GraphTopic {
+  id: string;
+  name: string;
+  subject?: string;
+  prerequisites?: string[];
+  status?: TopicStatus;
+  // Weak, with a weak prerequisite: the edges into it are highlighted
+  flagged?: boolean;
+}
+
+interface Props {
+  topics: GraphTopic[];
+}
+
+const NODE_W = 150;
+const NODE_H = 28;
+const COL_GAP = 44;
+const ROW_GAP = 10;
+
+const STROKE: Record<TopicStatus, string> = {
+  strong: '#3B6D11',
+  weak: '#BA7517',
+  revisit: '#185FA5',
+  untested: 'var(--color-border-secondary)'
+};
+
+const clip = (s: string, n: number) => s.length > n ? s.slice(0, n - 1) + '…' : s;
+
+// Prerequisite map: foundations in the left column, each topic one column right of the
+// deepest topic it builds on; within a column topics stay grouped by subject
+export function TopicGraph({ topics }: Props) {
+  const depths = topicDepths(topics);
+  const subjectOrder = subjectGroups(topics).map(g => g.subject);
+  const columns: GraphTopic[][] = [];
+  for (const t of foundationsFirst(topics)) (columns[depths[t.id]] ||= []).push(t);
+  columns.forEach(col => col.sort((a, b) => subjectOrder.indexOf(a.subject || '') - subjectOrder.indexOf(b.subject || '')));
+
+  const pos = new Map<string, { x: number; y: number }>();
+  columns.forEach((col, c) => col.forEach((t, r) => pos.set(t.id, { x: c * (NODE_W + COL_GAP), y: r * (NODE_H + ROW_GAP) })));
+  const width = columns.length * (NODE_W + COL_GAP) - COL_GAP;
+  const height = Math.max(...columns.map(col => col.length)) * (NODE_H + ROW_GAP) - ROW_GAP;
+  const weak = (t?: GraphTopic) => t?.status === 'weak' || t?.status === 'revisit';
+
+  return (
+    <div style={{ overflowX: 'auto', paddingBottom: 4 }}>
+      <svg width={width + 2} height={height + 2} style={{ display: 'block', fontFamily: 'var(--font-sans)' }}>
+        <defs>
+          <marker id="prereq-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" fill="var(--color-border-secondary)" />
+          </marker>
+          <marker id="prereq-arrow-flagged" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" fill="#BA7517" />
+          </marker>
+        </defs>
+        {topics.flatMap(t => (t.prerequisites || []).map(p => {
+          const from = pos.get(p), to = pos.get(t.id);
+          if (!from || !to) return null;
+          const flagged = t.flagged && weak(topics.find(x => x.id === p));
+          const x1 = from.x + NODE_W + 1, y1 = from.y + NODE_H / 2 + 1, x2 = to.x + 1, y2 = to.y + NODE_H / 2 + 1;
+          return (
+            <path
+              key={`${p}->${t.id}`}
+              d={`M${x1},${y1} C${x1 + COL_GAP / 2},${y1} ${x2 - COL_GAP / 2},${y2} ${x2},${y2}`}
+              fill="none"
+              stroke={flagged ? '#BA7517' : 'var(--color-border-secondary)'}
+              strokeWidth={flagged ? 1.5 : 1}
+              strokeDasharray={flagged ? '4 3' : undefined}
+              markerEnd={`url(#${flagged ? 'prereq-arrow-flagged' : 'prereq-arrow'})`}
+            />
+          );
+        }))}
+        {topics.map(t => {
+          const p = pos.get(t.id)!;
+          return (
+            <g key={t.id} transform={`translate(${p.x + 1},${p.y + 1})`}>
+              <title>{t.subject ? `${t.subject} › ${t.name}` : t.name}</title>
+              <rect
+                width={NODE_W} height={NODE_H} rx={6}
+                fill="var(--color-background-primary)"
+                stroke={t.status ? STROKE[t.status] : 'var(--color-border-tertiary)'}
+                strokeWidth={t.status && t.status !== 'untested' ? 1.2 : 0.6}
+              />
+              <text x={10} y={NODE_H / 2 + 4} fontSize={11} fill="var(--color-text-secondary)">{clip(t.name, 24)}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { installDemoProvider } from './services/demoProvider';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -10,8 +11,11 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// The demo provider has to be in place before the app makes its first model call
+installDemoProvider().finally(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,57 @@
+import { AnswerGrade, CheckSession, ConceptMastery, RubricSummary, TopicPerformance, TopicStatus } from "../types";
+
+// Concept-level mastery from the rubric grade on each answer. A topic's status is still the
+// examiner's overall call; this shows which of its concepts held up and which didn't.
+
+// Only the latest few grades on a concept count, so an early slip the student recovered
+// from doesn't hold the concept down
+const RECENT_GRADES = 3;
+
+export function scoreStatus(score: number): Exclude<TopicStatus, 'untested'> {
+  return score >= 0.75 ? 'strong' : score >= 0.4 ? 'weak' : 'revisit';
+}
+
+export function topicGrades(session: Pick<CheckSession, 'messages'>, topicId: string): AnswerGrade[] {
+  return session.messages.map(m => m.grade).filter((g): g is AnswerGrade => !!g && g.topicId === topicId);
+}
+
+// Every concept of the topic, in the topic's order; concepts no answer touched are untested
+export function conceptMastery(grades: AnswerGrade[], concepts: string[]): ConceptMastery[] {
+  return concepts.map(concept => {
+    const scores = grades.flatMap(g => g.concepts.filter(c => c.concept === concept).map(c => c.score / 2));
+    if (!scores.length) return { concept, status: 'untested' as const, score: 0, answers: 0 };
+    const recent = scores.slice(-RECENT_GRADES);
+    const score = recent.reduce((a, b) => a + b, 0) / recent.length;
+    return { concept, status: scoreStatus(score), score: Math.round(score * 100) / 100, answers: scores.length };
+  });
+}
+
+export function rubricSummary(grades: AnswerGrade[]): RubricSummary | undefined {
+  if (!grades.length) return undefined;
+  const mean = (key: 'accuracy' | 'completeness' | 'reasoning') =>
+    Math.round(grades.reduce((a, g) => a + g[key], 0) / grades.length * 10) / 10;
+  return {
+    answers: grades.length,
+    accuracy: mean('accuracy'),
+    completeness: mean('completeness'),
+    reasoning: mean('reasoning'),
+    misconceptions: [...new Set(grades.flatMap(g => g.misconceptions))]
+  };
+}
+
+// Add concept mastery and the rubric summary to each topic that has graded answers
+export function attachGrading(performances: TopicPerformance[], session: Pick<CheckSession, 'messages'>): TopicPerformance[] {
+  return performances.map(p => {
+    const grades = topicGrades(session, p.topicId);
+    if (!grades.length) return p;
+    return { ...p, conceptMastery: conceptMastery(grades, p.concepts), rubric: rubricSummary(grades) };
+  });
+}
+
+// Concepts the grades marked weak or revisit, worst first
+export function shakyConcepts(perf: TopicPerformance): string[] {
+  return (perf.conceptMastery || [])
+    .filter(m => m.status === 'weak' || m.status === 'revisit')
+    .sort((a, b) => a.score - b.score)
+    .map(m => m.concept);
+}
@@ -0,0 +1,62 @@
+import { CheckSession, ConfidenceLevel, RevisitItem, TopicCalibration, TopicPerformance } from "../types";
+import { slugify } from "./responseSchemas";
+
+// Confidence calibration: how sure the student said they were against how the answer was
+// graded. Being sure and wrong is the costliest pattern (it won't get revised unprompted),
+// so those topics go to the top of the revisit list.
+
+export const CONFIDENCE_LEVELS: { level: ConfidenceLevel; label: string }[] = [
+  { level: 1, label: 'Guessing' },
+  { level: 2, label: 'Unsure' },
+  { level: 3, label: 'Fairly sure' },
+  { level: 4, label: 'Certain' }
+];
+
+export function confidenceLabel(level: ConfidenceLevel): string {
+  return CONFIDENCE_LEVELS.find(l => l.level === level)?.label ?? '';
+}
+
+// Gap between mean confidence and mean correctness (both 0–1) past which a topic counts
+// as over- or underconfident
+const CALIBRATION_MARGIN = 0.25;
+
+export function topicCalibration(session: Pick<CheckSession, 'messages' | 'topics'>): TopicCalibration[] {
+  return session.topics.flatMap(t => {
+    const rated = session.messages.filter(m => m.confidence && m.grade?.topicId === t.id);
+    if (!rated.length) return [];
+    const confidence = rated.reduce((a, m) => a + (m.confidence! - 1) / 3, 0) / rated.length;
+    const correctness = rated.reduce((a, m) => a + m.grade!.accuracy / 2, 0) / rated.length;
+    const wrong = rated.filter(m => m.confidence! >= 3 && m.grade!.accuracy === 0);
+    const gap = confidence - correctness;
+    return [{
+      topicId: t.id,
+      topicName: t.name,
+      answers: rated.length,
+      confidence: Math.round(confidence * 100) / 100,
+      correctness: Math.round(correctness * 100) / 100,
+      verdict: gap > CALIBRATION_MARGIN ? 'overconfident' as const : gap < -CALIBRATION_MARGIN ? 'underconfident' as const : 'calibrated' as const,
+      confidentlyWrong: wrong.length,
+      wrongConcepts: [...new Set(wrong.flatMap(m => m.grade!.concepts.filter(c => c.score < 2).map(c => c.concept)))]
+    }];
+  });
+}
+
+// Confidently wrong topics first, most confidently-wrong answers first. Each gets the
+// concepts it was wrong about, or, if the grades named none, its first concept, when the
+// list doesn't already have an item for it.
+export function prioritiseRevisitList(list: RevisitItem[], calibration: TopicCalibration[], topics: TopicPerformance[]): RevisitItem[] {
+  const wrong = calibration.filter(c => c.confidentlyWrong > 0).sort((a, b) => b.confidentlyWrong - a.confidentlyWrong);
+  if (!wrong.length) return list;
+  const first: RevisitItem[] = [];
+  for (const c of wrong) {
+    const perf = topics.find(t => t.topicId === c.topicId);
+    const existing = list.filter(r => r.topicName === c.topicName);
+    const known = new Set(existing.map(r => slugify(r.concept)));
+    const added = (c.wrongConcepts.length ? c.wrongConcepts : existing.length ? [] : (perf?.concepts || []).slice(0, 1))
+      .filter(concept => !known.has(slugify(concept)))
+      .map(concept => ({ concept, topicName: c.topicName, ...(perf?.noteSection ? { noteSection: perf.noteSection } : {}) }));
+    first.push(...[...added, ...existing].map(r => ({ ...r, confidentlyWrong: true })));
+  }
+  const wrongNames = new Set(wrong.map(c => c.topicName));
+  return [...first, ...list.filter(r => !wrongNames.has(r.topicName))];
+}
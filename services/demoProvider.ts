@@ -0,0 +1,12 @@
+import { readLLMConfig, setLLMProvider } from "./llmProvider";
+
+// Offline demo (VITE_LLM_PROVIDER=mock): replays DEMO_MOCK_SCRIPT instead of calling a
+// model. The mock provider and the fixtures are only loaded when that flag is set, so a
+// normal build never reaches them.
+export async function installDemoProvider(): Promise<boolean> {
+  if (readLLMConfig().provider !== 'mock') return false;
+  const [{ createMockProvider }, { DEMO_MOCK_SCRIPT }] = await Promise.all([import("./mockProvider"), import("./mockFixtures")]);
+  setLLMProvider(createMockProvider(DEMO_MOCK_SCRIPT));
+  console.info('[llmProvider] using mock | demo script');
+  return true;
+}
@@ -0,0 +1,47 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMConfig, LLMImage, LLMProvider, LLMRequest } from "./llmProvider";
+
+export function createGeminiProvider(config: LLMConfig): LLMProvider {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  // Streaming bypasses SDK-level JSON validation that throws on truncated structured output
+  async function* streamContents(model: string, contents: any[], systemInstruction?: string, maxOutputTokens?: number): AsyncGenerator<string> {
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents,
+      config: {
+        ...(systemInstruction ? { systemInstruction } : {}),
+        maxOutputTokens,
+        thinkingConfig: { thinkingBudget: 0 }
+      }
+    });
+    for await (const chunk of stream) {
+      const part = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof part === 'string') yield part;
+    }
+  }
+
+  const stream = (req: LLMRequest) => streamContents(
+    config.model,
+    req.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+    req.systemInstruction,
+    req.maxOutputTokens
+  );
+
+  return {
+    name: 'gemini',
+    stream,
+    async generate(req: LLMRequest) {
+      let text = '';
+      for await (const part of stream(req)) text += part;
+      return text;
+    },
+    async vision(images: LLMImage[], prompt: string, opts?: { maxOutputTokens?: number }) {
+      const parts: any[] = images.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } }));
+      parts.push({ text: prompt });
+      let text = '';
+      for await (const part of streamContents(config.visionModel, [{ role: 'user', parts }], undefined, opts?.maxOutputTokens)) text += part;
+      return text;
+    }
+  };
+}
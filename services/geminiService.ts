@@ -1,18 +1,21 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { ExtractedTopic, CheckSession, SessionTurnResponse, KnowledgeReport, TopicStatus, PersonalityProfile } from "../types";
+import { ExtractedTopic, CheckSession, SessionTurnResponse, KnowledgeReport, TopicStatus, PersonalityProfile, SessionMode } from "../types";
 import { buildPersonalityInstruction } from "./personalityService";
-
-// Mode escalates as session progresses: Friend (0-25%) → Tutor (25-50%) → Instructor (50-75%) → Examiner (75-100%)
-function getSessionMode(elapsedSeconds: number, totalSeconds: number): 'friend' | 'tutor' | 'instructor' | 'examiner' {
-  const pct = totalSeconds > 0 ? elapsedSeconds / totalSeconds : 0;
-  if (pct < 0.25) return 'friend';
-  if (pct < 0.50) return 'tutor';
-  if (pct < 0.75) return 'instructor';
-  return 'examiner';
-}
-
-const MODE_INSTRUCTIONS: Record<'friend' | 'tutor' | 'instructor' | 'examiner', string> = {
+import { getLLMProvider, LLMImage, LLMMessage } from "./llmProvider";
+import { generateValidated, validateTopicExtraction, sessionTurnValidator, reportValidator, topicGroupsValidator } from "./responseSchemas";
+import { pacingRemaining, reportDetails, sessionPacing, topicBudgets } from "./sessionEngine";
+import { chooseMode } from "./modeController";
+import { sectionMarkers, snapNoteSection } from "./noteSections";
+import { applyTopicGroups, chunkNotes, ExtractionProgress, MAX_TOPICS, mergeCandidateTopics } from "./topicExtraction";
+import { citePassages, noteIndexFor, retrievePassages } from "./noteIndex";
+import { foundationsFirst, linkReportTopics } from "./topicGraph";
+import { attachGrading } from "./answerGrading";
+import { prioritiseRevisitList } from "./calibration";
+import { describeKey, describeQuestion, QUESTION_TYPE_LABELS } from "./questionFormats";
+import { activeMisconception, misconceptionOutcomes, remediationInstruction } from "./misconceptions";
+import { createJSONFieldStream, JSONFieldStream } from "./jsonStream";
+
+const MODE_INSTRUCTIONS: Record<SessionMode, string> = {
   friend: `CURRENT MODE: Friend
 You're a knowledgeable mate helping them warm up. Keep it casual and relaxed.
 - Short, breezy questions. "So what's X about?" / "Give me the quick version of Y."
@@ -55,144 +58,6 @@ PROFICIENCY LEVELS:
 - revisit: Clear misconception or critical gap`;
 
 
-function repairTruncatedJSON(s: string): string {
-  let t = s.trimEnd();
-  const stack: string[] = [];
-  let inStr = false;
-  let i = 0;
-
-  // Walk the string tracking state properly, including escape sequences
-  while (i < t.length) {
-    const c = t[i];
-    if (inStr) {
-      if (c === '\\') { i += 2; continue; } // skip escaped char
-      if (c === '"') inStr = false;
-    } else {
-      if (c === '"') inStr = true;
-      else if (c === '{') stack.push('}');
-      else if (c === '[') stack.push(']');
-      else if (c === '}' || c === ']') stack.pop();
-    }
-    i++;
-  }
-
-  // If we ended inside a string, close it
-  if (inStr) t += '"';
-
-  // Remove trailing comma or incomplete key before closing
-  t = t.replace(/,\s*$/, '');
-
-  // Close all open structures
-  return t + stack.reverse().join('');
-}
-
-function cleanJSON(s: string): string {
-  return s
-    .replace(/,(\s*[}\]])/g, '$1')   // trailing commas before } or ]
-    .replace(/([{,]\s*)(\w+)(\s*:)/g, '$1"$2"$3'); // unquoted keys
-}
-
-function safeParseJSON(text: string): any {
-  // Strip markdown fences (```json ... ``` or ``` ... ```)
-  const stripped = text
-    .replace(/^```(?:json)?\s*/im, '')
-    .replace(/\s*```\s*$/im, '')
-    .trim();
-
-  // Direct parse
-  try { return JSON.parse(stripped); } catch (e1) {
-    console.warn('[safeParseJSON] Direct parse failed:', (e1 as Error).message, '| raw:', stripped.slice(0, 200));
-  }
-
-  // After cleaning trailing commas / unquoted keys
-  try { return JSON.parse(cleanJSON(stripped)); } catch {}
-
-  const objStart = stripped.indexOf('{');
-  const arrStart = stripped.indexOf('[');
-  const start = objStart === -1 ? arrStart : arrStart === -1 ? objStart : Math.min(objStart, arrStart);
-  if (start === -1) {
-    // Model returned plain text (common in personality mode) — wrap it as the message
-    const plainText = stripped.replace(/^["']|["']$/g, '').trim();
-    if (plainText.length > 0) {
-      console.warn('[safeParseJSON] No JSON found, wrapping plain text as message:', plainText.slice(0, 100));
-      return { message: plainText, isFollowUp: false, currentTopicId: '', sessionShouldEnd: false, overtimeNeeded: false };
-    }
-    console.error('[safeParseJSON] No JSON structure found:', stripped.slice(0, 300));
-    throw new SyntaxError('No JSON found in response');
-  }
-
-  const slice = stripped.slice(start);
-
-  try { return JSON.parse(slice); } catch (e2) {
-    console.warn('[safeParseJSON] Slice parse failed:', (e2 as Error).message);
-  }
-
-  try { return JSON.parse(cleanJSON(slice)); } catch {}
-
-  try {
-    const repaired = repairTruncatedJSON(slice);
-    console.info('[safeParseJSON] Repair attempt, tail:', repaired.slice(-80));
-    return JSON.parse(repaired);
-  } catch (e3) {
-    console.warn('[safeParseJSON] Repair parse failed:', (e3 as Error).message);
-  }
-
-  try { return JSON.parse(cleanJSON(repairTruncatedJSON(slice))); } catch {}
-
-  // Last resort: truncate to last safe closed element
-  try {
-    let depth = 0, inStr = false, lastSafeEnd = -1;
-    for (let i = 0; i < slice.length; i++) {
-      const c = slice[i];
-      if (inStr) {
-        if (c === '\\') { i++; continue; }
-        if (c === '"') inStr = false;
-      } else {
-        if (c === '"') inStr = true;
-        else if (c === '{' || c === '[') depth++;
-        else if (c === '}' || c === ']') { depth--; if (depth <= 1) lastSafeEnd = i; }
-      }
-    }
-    if (lastSafeEnd > 0) {
-      const truncated = repairTruncatedJSON(slice.slice(0, lastSafeEnd + 1));
-      console.warn('[safeParseJSON] Using truncated fallback, kept', lastSafeEnd, 'of', slice.length, 'chars');
-      return JSON.parse(truncated);
-    }
-  } catch (e4) {
-    console.warn('[safeParseJSON] Truncation fallback failed:', (e4 as Error).message);
-  }
-
-  // Final fallback: extract any valid fields we can via regex, reconstruct minimal object
-  try {
-    const extract = (key: string, type: 'string' | 'bool' | 'obj') => {
-      if (type === 'string') {
-        const m = stripped.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
-        return m ? m[1] : null;
-      }
-      if (type === 'bool') {
-        const m = stripped.match(new RegExp(`"${key}"\\s*:\\s*(true|false)`));
-        return m ? m[1] === 'true' : null;
-      }
-      return null;
-    };
-    // Try to get a partial message string (may be truncated)
-    const msgMatch = stripped.match(/"message"\s*:\s*"([\s\S]*)/);
-    const partialMsg = msgMatch ? msgMatch[1].replace(/\\n/g, ' ').replace(/\\"/g, '"').replace(/\\./g, '').slice(0, 200) : '';
-    const result: any = {
-      isFollowUp: extract('isFollowUp', 'bool') ?? false,
-      currentTopicId: extract('currentTopicId', 'string') ?? '',
-      sessionShouldEnd: extract('sessionShouldEnd', 'bool') ?? false,
-      overtimeNeeded: extract('overtimeNeeded', 'bool') ?? false,
-      message: partialMsg || 'Go on.',
-    };
-    console.warn('[safeParseJSON] Used regex fallback, recovered:', JSON.stringify(result).slice(0, 200));
-    return result;
-  } catch {}
-
-  console.error('[safeParseJSON] All parse attempts failed. Full response:', stripped);
-  throw new SyntaxError('Could not parse Gemini response as JSON');
-}
-
 async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
   let lastError: any;
   for (let i = 0; i < maxRetries; i++) {
@@ -219,68 +84,109 @@ async function imageToBase64(file: File): Promise<string> {
 }
 
 export async function extractTextFromImage(files: File | File[]): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY_1 || '' });
+  const llm = getLLMProvider();
   const fileList = Array.isArray(files) ? files : [files];
 
-  const parts: any[] = [];
+  const images: LLMImage[] = [];
   for (const file of fileList) {
-    const base64 = await imageToBase64(file);
-    parts.push({ inlineData: { mimeType: file.type, data: base64 } });
+    images.push({ mimeType: file.type, data: await imageToBase64(file) });
   }
-  parts.push({
-    text: fileList.length > 1
-      ? `Extract all text from these ${fileList.length} images in order, preserving headings, bullet points, and structure. Separate each image's content with "--- Page X ---". Return only the extracted text.`
-      : 'Extract all text from this image exactly as written. Preserve headings, bullet points, numbered lists, and structure. Return only the extracted text.'
-  });
+  const prompt = fileList.length > 1
+    ? `Extract all text from these ${fileList.length} images in order, preserving headings, bullet points, and structure. Separate each image's content with "--- Page X ---". Return only the extracted text.`
+    : 'Extract all text from this image exactly as written. Preserve headings, bullet points, numbered lists, and structure. Return only the extracted text.';
 
   return retryWithBackoff(async () => {
-    const stream = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts }],
-      config: { maxOutputTokens: 8000, thinkingConfig: { thinkingBudget: 0 } }
-    });
-    let text = '';
-    for await (const chunk of stream) {
-      const part = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (typeof part === 'string') text += part;
-    }
+    const text = await llm.vision(images, prompt, { maxOutputTokens: 8000 });
     if (!text.trim()) throw new Error('No text found in image.');
     return text;
   });
 }
 
-export async function extractTopicsFromNotes(noteContent: string): Promise<{ title: string; topics: ExtractedTopic[] }> {
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY_1 || '' });
+const TOPIC_EXTRACTION_SYSTEM = `You are an expert academic analyst. Extract structured topic data from study notes.
+RESPOND WITH ONLY RAW JSON — no markdown, no code fences, no explanation.
+Format: {"title":"string","topics":[{"id":"snake_case","name":"string","subject":"string","concepts":["string"],"prerequisites":["topic_id"],"noteSection":"string"}]}
+Start your response with { and end with }. Nothing else.`;
 
-  const prompt = `Analyze these study notes. Extract all major topics and their key concepts. Assign each topic a short snake_case id (e.g. "cardiac_physiology"). Identify the section or heading in the notes where each topic appears if possible.
+function topicExtractionPrompt(notes: string, hasMarkers: boolean, part?: { index: number; total: number }): string {
+  const scope = part
+    ? `These are part ${part.index + 1} of ${part.total} of a longer set of study notes. Extract the major topics covered in this part and their key concepts.`
+    : 'Analyze these study notes. Extract all major topics and their key concepts.';
+  return `${scope} Assign each topic a short snake_case id (e.g. "cardiac_physiology"). Identify the section or heading in the notes where each topic appears if possible.
+Organise the topics as a tree: give each one the broad subject it belongs to (e.g. "Physiology"; reuse the same subject name for related topics). For prerequisites, list the ids of other topics in your list that must be understood before this one — direct prerequisites only, and an empty list for foundational topics.${hasMarkers ? `
+Sections are marked with lines like [[Slide 3: Title]] or [[p. 4, Heading]]. For noteSection, copy the text inside the brackets of the section the topic appears under exactly.` : ''}
 
 NOTES:
-${noteContent}`;
+${notes}`;
+}
 
-  return retryWithBackoff(async () => {
-    const stream = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        systemInstruction: `You are an expert academic analyst. Extract structured topic data from study notes.
+// Long notes are extracted chunk by chunk and merged (see topicExtraction.ts); short notes
+// take the single-prompt path. onProgress reports chunks done and the merge step.
+export async function extractTopicsFromNotes(
+  noteContent: string,
+  onProgress?: (progress: ExtractionProgress) => void
+): Promise<{ title: string; topics: ExtractedTopic[] }> {
+  const llm = getLLMProvider();
+  const markers = sectionMarkers(noteContent);
+  const chunks = chunkNotes(noteContent);
+  const extractPart = (text: string, part?: { index: number; total: number }) => retryWithBackoff(() => generateValidated(llm, {
+    tag: 'extractTopics',
+    messages: [{ role: 'user', text: topicExtractionPrompt(text, markers.length > 0, part) }],
+    systemInstruction: TOPIC_EXTRACTION_SYSTEM,
+    maxOutputTokens: 8000
+  }, validateTopicExtraction, 'extractTopicsFromNotes'));
+  const snap = (topics: ExtractedTopic[]) => topics.map(t => ({ ...t, noteSection: snapNoteSection(t.noteSection, markers) }));
+
+  if (chunks.length === 1) {
+    const extracted = await extractPart(noteContent);
+    return { ...extracted, topics: snap(extracted.topics) };
+  }
+
+  // Map: one chunk at a time, so progress is meaningful and rate limits aren't hit in a burst
+  console.log(`[extractTopics] ${noteContent.length} chars in ${chunks.length} chunks`);
+  const candidates: ExtractedTopic[] = [];
+  let title = '';
+  let failed = 0;
+  for (const chunk of chunks) {
+    onProgress?.({ stage: 'map', done: chunk.index, total: chunks.length });
+    try {
+      const part = await extractPart(chunk.text, { index: chunk.index, total: chunks.length });
+      if (!title && part.title !== 'Uploaded Notes') title = part.title;
+      candidates.push(...snap(part.topics));
+    } catch (e) {
+      // One unreadable chunk shouldn't lose the rest of the notes
+      failed++;
+      console.log(`[extractTopics] chunk ${chunk.index + 1} failed`, e);
+    }
+  }
+  onProgress?.({ stage: 'map', done: chunks.length, total: chunks.length });
+  if (!candidates.length) throw new Error(`Topic extraction failed for all ${chunks.length} parts of the notes.`);
+  if (failed) console.log(`[extractTopics] ${failed} of ${chunks.length} chunks skipped`);
+
+  // Reduce: merge the same topic seen in several chunks, then consolidate if still too many
+  let topics = mergeCandidateTopics(candidates);
+  if (topics.length > MAX_TOPICS) {
+    onProgress?.({ stage: 'reduce', done: 0, total: 1 });
+    try {
+      const grouped = await retryWithBackoff(() => generateValidated(llm, {
+        tag: 'mergeTopics',
+        messages: [{ role: 'user', text: `These topics were extracted separately from consecutive parts of one set of study notes. Group them into at most ${MAX_TOPICS} final topics for an oral exam: merge duplicates and closely related subtopics under one broader topic, keep distinct subjects apart. Every candidate id must appear in exactly one group's memberIds.
+
+CANDIDATE TOPICS:
+${topics.map(t => `- ${t.id}: ${t.name} — ${t.concepts.slice(0, 5).join(', ')}`).join('\n')}` }],
+        systemInstruction: `You are an expert academic analyst organising a syllabus.
 RESPOND WITH ONLY RAW JSON — no markdown, no code fences, no explanation.
-Format: {"title":"string","topics":[{"id":"snake_case","name":"string","concepts":["string"],"noteSection":"string"}]}
+Format: {"title":"string","topics":[{"id":"snake_case","name":"string","memberIds":["candidate_id"]}]}
 Start your response with { and end with }. Nothing else.`,
-        maxOutputTokens: 8000,
-        thinkingConfig: { thinkingBudget: 0 }
-      }
-    });
-
-    let text = '';
-    for await (const chunk of stream) {
-      const part = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (typeof part === 'string') text += part;
+        maxOutputTokens: 4000
+      }, topicGroupsValidator(topics), 'mergeTopics'));
+      topics = applyTopicGroups(topics, grouped.topics);
+      title = title || grouped.title;
+    } catch (e) {
+      console.log('[extractTopics] merge step failed, keeping merged candidates', e);
     }
-    console.log('[extractTopicsFromNotes] streamed len:', text.length, '| preview:', text.slice(0, 100));
-    if (!text.trim()) throw new Error("Empty response");
-    const parsed = safeParseJSON(text);
-    return { title: parsed.title || "Uploaded Notes", topics: parsed.topics || [] };
-  });
+    onProgress?.({ stage: 'reduce', done: 1, total: 1 });
+  }
+  return { title: title || 'Uploaded Notes', topics };
 }
 
 export async function runSessionTurn(
@@ -288,44 +194,70 @@ export async function runSessionTurn(
   userMessage: string | null,
   elapsedSeconds: number,
   isFirstTurn: boolean,
-  personality?: PersonalityProfile
+  personality?: PersonalityProfile,
+  // Called with the reply's message text as it streams in
+  onMessage?: (partial: string) => void
 ): Promise<SessionTurnResponse> {
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY_1 || '' });
-
-  const totalSeconds = session.duration * 60;
-  const remainingSeconds = Math.max(0, totalSeconds - elapsedSeconds);
-  const remainingMinutes = Math.ceil(remainingSeconds / 60);
-  const mode = session.isOvertimeActive ? 'examiner' : getSessionMode(elapsedSeconds, totalSeconds);
-
-  const topicSummary = session.topics.map(t => {
+  const llm = getLLMProvider();
+
+  const pacing = sessionPacing(session);
+  const remaining = pacingRemaining(session, elapsedSeconds);
+  // Mode follows the student's answers as well as the pace (see modeController.ts)
+  const { mode, reason: modeReason } = chooseMode(session, elapsedSeconds);
+
+  const budgets = topicBudgets(session);
+  const unit = pacing.kind === 'questions' ? 'questions' : 'min';
+  // Foundations before the topics that build on them. Every concept is listed, since
+  // answers are graded against them by name.
+  const topicSummary = foundationsFirst(session.topics).map(t => {
     const perf = session.topicPerformances[t.id];
     const status = perf ? perf.status : 'untested';
-    return `- ${t.name} (id: ${t.id}) [${status}] — concepts: ${t.concepts.slice(0, 4).join(', ')}`;
+    const builds = (t.prerequisites || []).map(id => session.topics.find(x => x.id === id)?.name).filter(Boolean);
+    return `- ${t.name} (id: ${t.id}) [${status}]${t.priority ? ' [PRIORITY]' : ''}${budgets ? ` ~${budgets[t.id]} ${unit}` : ''}${builds.length ? ` — builds on: ${builds.join(', ')}` : ''} — concepts: ${t.concepts.join(', ')}`;
   }).join('\n');
 
-  const conversationHistory = session.messages.slice(-20).map(m => ({
-    role: m.role === 'ai' ? 'model' as const : 'user' as const,
-    parts: [{ text: m.content }]
+  // Passages about the topic in play, so questions and ratings rest on what the notes say
+  const passages = retrievePassages(session, userMessage);
+
+  // A misconception being corrected sets what this reply has to do (see misconceptions.ts)
+  const remediation = remediationInstruction(session);
+  const correcting = !!activeMisconception(session);
+
+  const conversationHistory: LLMMessage[] = session.messages.slice(-20).map(m => ({
+    role: m.role === 'ai' ? 'model' : 'user',
+    text: m.role === 'ai' ? describeQuestion(m) : m.content
   }));
 
+  // A closed answer was graded from the key when it was sent; the examiner reacts to the result
+  const lastAnswer = session.messages[session.messages.length - 1];
+  const answeredQuestion = session.messages[session.messages.length - 2];
+  const autoGrade = !isFirstTurn && lastAnswer?.role === 'user' && lastAnswer.grade?.auto ? lastAnswer.grade : undefined;
+  const autoGraded = autoGrade && answeredQuestion ? `AUTO-GRADED: The student's last answer was to a ${QUESTION_TYPE_LABELS[answeredQuestion.questionType ?? 'open'].toLowerCase()} question and was checked against the key: ${autoGrade.accuracy === 2 ? 'correct' : autoGrade.accuracy === 1 ? 'partly right' : 'wrong'} (key: ${describeKey(answeredQuestion.questionType, answeredQuestion.question)}). React to that result in your message${autoGrade.accuracy < 2 ? ' and give the right answer in a few words' : ''}. ${answeredQuestion.questionType === 'true_false' ? 'In grade, judge only the justification: its reasoning and any misconceptions.' : "Don't add a grade for it."}` : '';
+
   const systemContext = `
 NOTES TITLE: ${session.uploadTitle}
-SESSION DURATION: ${session.duration} minutes
-TIME REMAINING: ~${remainingMinutes} minute(s)
+${pacing.kind === 'timed' ? `SESSION DURATION: ${pacing.minutes} minutes
+TIME REMAINING: ~${remaining.minutes} minute(s)`
+  : pacing.kind === 'questions' ? `SESSION LENGTH: ${pacing.count} questions answered
+QUESTIONS REMAINING: ${remaining.questions}`
+  : `SESSION LENGTH: untimed — set sessionShouldEnd once every topic has a rating you're confident in`}
 IS OVERTIME: ${session.isOvertimeActive}
 
-TOPICS TO COVER:
+TOPICS TO COVER (in this order${budgets ? `, spending roughly the ${pacing.kind === 'questions' ? 'questions' : 'minutes'} shown on each` : ''}; probe PRIORITY topics more deeply and never leave them untested. Foundations come first: don't start a topic before the topics it builds on have been tested, and when a student struggles with a topic whose foundation was weak, check the foundation rather than piling on):
 ${topicSummary}
 
-NOTES CONTENT (excerpt):
-${session.noteContent.slice(0, 3000)}${session.noteContent.length > 3000 ? '\n[...notes truncated...]' : ''}
+RELEVANT NOTE PASSAGES (ask about what these say; check answers against them):
+${passages.map(p => `[${p.id}]${p.section ? ` (${p.section})` : ''}\n${p.text}`).join('\n\n')}
 
-${isFirstTurn ? `This is the first turn. You are in Friend mode. Open casually — one short sentence to kick things off ("Alright, let's see what you've got." / "Cool, let's dig in."), then your first question. Two sentences max.` : `Current mode: ${mode.toUpperCase()}.`}
+${isFirstTurn ? `This is the first turn. You are in Friend mode. Open casually — one short sentence to kick things off ("Alright, let's see what you've got." / "Cool, let's dig in."), then your first question. Two sentences max.` : `Current mode: ${mode.toUpperCase()} (${modeReason}).`}
 ${session.isOvertimeActive ? 'OVERTIME ACTIVE: Focus only on weak/revisit topics. End the session once those are resolved.' : ''}
-${remainingMinutes <= 3 && !session.isOvertimeActive ? 'TIME IS RUNNING LOW: Prioritize any untested or weak topics.' : ''}`;
+${remaining.minutes !== undefined && remaining.minutes <= 3 && !session.isOvertimeActive ? 'TIME IS RUNNING LOW: Prioritize any untested or weak topics.' : ''}
+${remaining.questions !== undefined && remaining.questions <= 2 && !session.isOvertimeActive ? 'FEW QUESTIONS LEFT: Prioritize any untested or weak topics.' : ''}
+${isFirstTurn ? '' : remediation}
+${autoGraded}`;
 
-  const contents = isFirstTurn
-    ? [{ role: 'user' as const, parts: [{ text: '[Session starting. Begin the audit.]' }] }]
+  const messages: LLMMessage[] = isFirstTurn
+    ? [{ role: 'user', text: '[Session starting. Begin the audit.]' }]
     : [...conversationHistory];
 
   const isDontKnow = !isFirstTurn && (
@@ -343,105 +275,112 @@ STUDENT SAID "I DON'T KNOW":
   const JSON_FORMAT_INSTRUCTION = `OUTPUT RULES — MUST FOLLOW EXACTLY:
 - Respond with ONLY a single raw JSON object. No markdown, no code fences, no preamble.
 - Put "message" FIRST in the JSON — before all other fields.
-- "message": ${isDontKnow ? 'Brief explanation (2-3 sentences) + one easy follow-up question. Max 40 words.' : 'ONE reaction (≤6 words) + ONE question (≤10 words). Absolute max: 16 words.'}
+- "message": ${isDontKnow ? 'Brief explanation (2-3 sentences) + one easy follow-up question. Max 40 words.' : 'ONE reaction (≤6 words) + ONE question (≤10 words). Absolute max: 16 words — except when correcting a misconception, which may take up to 40 words.'}
 - Required JSON shape (message must come first):
-  {"message":"string","isFollowUp":bool,"currentTopicId":"string","sessionShouldEnd":bool,"overtimeNeeded":bool}
+  {"message":"string","isFollowUp":bool,"currentTopicId":"string","questionType":"open|mcq|true_false|fill_blank|ordering|diagram","sessionShouldEnd":bool,"overtimeNeeded":bool}
+- questionType: mostly "open", but about one question in three use another format where the concept suits it. Other formats add "question" (the message holds the question text and never gives the answer away):
+  mcq: {"concept":"string","options":["3-5 short choices"],"answer":"the correct option's exact text"}
+  true_false (message states the claim and asks them to justify their verdict): {"concept":"string","answer":true|false}
+  fill_blank (message shows ___ for the blank): {"concept":"string","answer":["accepted answers"]}
+  ordering: {"concept":"string","options":["items in the CORRECT order; the student sees them shuffled"]}
+  diagram: {"concept":"string","diagram":"a small plain-text diagram (labels, arrows) from the notes to explain"}
 - topicUpdate (add only when you're confident about a topic rating):
   {"topicId":"string","status":"strong|weak|revisit","evidence":"string"}
-- Start response with { — nothing before it.${DONT_KNOW_OVERRIDE}`;
+- In evidence, cite the passage the answer was checked against by its id in brackets with a short quote, e.g. [P3] "stroke volume rises with preload".
+${isFirstTurn ? '' : `- grade (add whenever the student's last message answered a question, including "I don't know"; check it against the note passages):
+  {"topicId":"string","accuracy":0-2,"completeness":0-2,"reasoning":0-2,"concepts":[{"concept":"string","score":0-2}],"misconceptions":["string"]}
+  0 = wrong or missing, 1 = partly there, 2 = fully there. List each concept of the topic the question covered, named exactly as in the topic list. misconceptions: each wrong idea the student stated, one sentence each, [] if none.
+${correcting ? `- misconceptionResolved: bool — only when told to give a verdict on a misconception.
+` : `- If your grade flags a misconception, don't move on yet: say what's wrong with the first one, give the correct idea, and ask the student to put the two side by side.
+`}`}- Start response with { — nothing before it.${DONT_KNOW_OVERRIDE}`;
 
   const systemInstruction = mode === 'friend' && personality
     ? `${JSON_FORMAT_INSTRUCTION}\n\n${buildPersonalityInstruction(personality.name, personality.style)}\n\n${BASE_RULES}\n\n${systemContext}`
     : `${JSON_FORMAT_INSTRUCTION}\n\nYou are CrossCheck, a knowledge audit tool.\n\n${MODE_INSTRUCTIONS[mode]}\n\n${BASE_RULES}\n\n${systemContext}`;
 
-  return retryWithBackoff(async () => {
-    // Use streaming to bypass SDK-level JSON validation that throws on truncated responses
-    const stream = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents,
-      config: {
-        systemInstruction,
-        maxOutputTokens: isDontKnow ? 800 : 500,
-        thinkingConfig: { thinkingBudget: 0 }
-      }
-    });
-
-    let text = '';
-    for await (const chunk of stream) {
-      const part = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (typeof part === 'string') text += part;
+  // "message" comes first in the reply, so it can be shown while the rest streams in. A
+  // re-ask or retry starts a fresh reply, and the shown text starts over with it.
+  let reader: JSONFieldStream | null = null;
+  let readerAttempt = 0;
+  let shown = '';
+  const onChunk = onMessage && ((chunk: string, attempt: number) => {
+    if (!reader || attempt !== readerAttempt) {
+      reader = createJSONFieldStream('message');
+      readerAttempt = attempt;
+      if (shown) onMessage(shown = '');
     }
+    const { value } = reader.push(chunk);
+    if (value !== shown) onMessage(shown = value);
+  });
 
-    console.log('[runSessionTurn] streamed len:', text.length, '| full:', text);
-    if (!text.trim()) throw new Error("Empty response from Gemini");
-    return safeParseJSON(text) as SessionTurnResponse;
+  const turn = await retryWithBackoff(() => {
+    reader = null;
+    return generateValidated(llm, {
+      tag: 'sessionTurn',
+      messages,
+      systemInstruction,
+      maxOutputTokens: isDontKnow ? 1000 : 700
+    }, sessionTurnValidator(session.topics), 'runSessionTurn', onChunk);
   });
+  // Passage ids mean nothing outside this turn; the report shows the section instead
+  return turn.topicUpdate
+    ? { ...turn, topicUpdate: { ...turn.topicUpdate, evidence: citePassages(turn.topicUpdate.evidence, noteIndexFor(session.noteContent).passages) } }
+    : turn;
 }
 
 export async function generateKnowledgeReport(session: CheckSession): Promise<KnowledgeReport> {
-  const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY_1 || '' });
+  const llm = getLLMProvider();
 
   const conversationSummary = session.messages
     .map(m => `${m.role === 'ai' ? 'EXAMINER' : 'STUDENT'}: ${m.content}`)
     .join('\n\n');
 
-  const existingAssessments = Object.values(session.topicPerformances)
-    .map(p => `${p.topicName}: ${p.status} — ${p.evidence}`)
+  const misconceptions = misconceptionOutcomes(session);
+
+  const existingAssessments = attachGrading(Object.values(session.topicPerformances), session)
+    .map(p => {
+      const graded = (p.conceptMastery || []).filter(m => m.answers).map(m => `${m.concept} ${m.status}`);
+      return `${p.topicName}: ${p.status} — ${p.evidence}${graded.length ? `\n  graded concepts: ${graded.join(', ')}` : ''}`;
+    })
     .join('\n');
 
+  // Exact section labels (e.g. "p. 12, Heading") so revisit items can cite a precise place
+  const markers = sectionMarkers(session.noteContent);
+
   const prompt = `Generate a final knowledge breakdown report for this audit session.
 
 NOTES TITLE: ${session.uploadTitle}
 TOPICS EXTRACTED:
-${session.topics.map(t => `- ${t.name} (id: ${t.id}, section: ${t.noteSection || 'N/A'})`).join('\n')}
-
+${session.topics.map(t => `- ${t.name} (id: ${t.id}, section: ${t.noteSection || 'N/A'}${t.prerequisites?.length ? `, builds on: ${t.prerequisites.join(', ')}` : ''})`).join('\n')}
+${markers.length ? `
+NOTE SECTIONS (cite noteSection by copying one of these exactly):
+${markers.slice(0, 200).map(m => `- ${m}`).join('\n')}
+` : ''}
 EXISTING TOPIC ASSESSMENTS:
 ${existingAssessments || 'None recorded during session.'}
-
+${misconceptions.length ? `
+MISCONCEPTIONS (corrected in the session, or not):
+${misconceptions.map(m => `- ${m.topicName}: "${m.statement}" — ${m.resolved ? 'resolved' : 'unresolved'}`).join('\n')}
+` : ''}
 FULL CONVERSATION:
 ${conversationSummary.slice(0, 8000)}
 
-Classify each topic as strong/weak/revisit/untested. For any weak or revisit topics, add specific concepts to the revisitList with references to the note section where possible.`;
+Classify each topic as strong/weak/revisit/untested. For any weak or revisit topics, add specific concepts to the revisitList with references to the note section where possible, starting with the concepts graded weak or revisit. Each unresolved misconception belongs in the revisitList as the concept it got wrong.`;
 
   return retryWithBackoff(async () => {
-    const stream = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        systemInstruction: `You are CrossCheck. Generate an accurate, evidence-based knowledge breakdown report.
+    const parsed = await generateValidated(llm, {
+      tag: 'report',
+      messages: [{ role: 'user', text: prompt }],
+      systemInstruction: `You are CrossCheck. Generate an accurate, evidence-based knowledge breakdown report.
 RESPOND WITH ONLY RAW JSON — no markdown, no code fences, no explanation.
 Format: {"topics":[{"topicId":"string","topicName":"string","status":"strong|weak|revisit|untested","evidence":"string","noteSection":"string"}],"revisitList":[{"concept":"string","topicName":"string","noteSection":"string"}]}
 Start your response with { and end with }. Nothing else.`,
-        maxOutputTokens: 4000,
-        thinkingConfig: { thinkingBudget: 0 }
-      }
-    });
-
-    let text = '';
-    for await (const chunk of stream) {
-      const part = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (typeof part === 'string') text += part;
-    }
-    console.log('[generateKnowledgeReport] streamed len:', text.length, '| preview:', text.slice(0, 100));
-    if (!text) throw new Error("Empty response");
-    const parsed = safeParseJSON(text);
-
-    const actualMinutes = session.endTime
-      ? Math.round((session.endTime - session.startTime) / 60000)
-      : session.duration;
-
-    return {
-      sessionId: session.id,
-      date: new Date().toISOString(),
-      uploadTitle: session.uploadTitle,
-      durationMinutes: session.duration,
-      actualDurationMinutes: actualMinutes,
-      topics: (parsed.topics || []).map((t: any) => ({
-        ...t,
-        concepts: session.topics.find(st => st.id === t.topicId)?.concepts || []
-      })),
-      revisitList: parsed.revisitList || [],
-      overtimeUsed: session.isOvertimeActive
-    } as KnowledgeReport;
+      maxOutputTokens: 4000
+    }, reportValidator(session), 'generateKnowledgeReport');
+
+    const details = reportDetails(session);
+    const topics = linkReportTopics(attachGrading(parsed.topics, session), session.topics);
+    // Topics the student was sure of and got wrong go first (see calibration.ts)
+    return { ...details, topics, revisitList: prioritiseRevisitList(parsed.revisitList, details.calibration || [], topics) };
   });
 }
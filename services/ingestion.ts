@@ -0,0 +1,296 @@
+import mammoth from "mammoth";
+import JSZip from "jszip";
+import * as pdfjsLib from "pdfjs-dist";
+import pdfWorkerSrc from "pdfjs-dist/build/pdf.worker.mjs?url";
+import { IngestedNotes, NoteBlock } from "./noteSections";
+import { layoutPdf, PdfPage } from "./pdfLayout";
+import { createOcrSession, ocrPages, OcrJob, readOcrEngine } from "./ocr";
+import { extractTextFromImage } from "./geminiService";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
+
+// Turns uploaded files into structured notes. Each extractor splits its format into
+// blocks under a section label (heading, chapter, slide, page); see noteSections.ts for
+// how those labels reach the model and come back as noteSection.
+
+export type { IngestedNotes, NoteBlock } from "./noteSections";
+export { renderNotes } from "./noteSections";
+
+// Per-page progress for long extractions; page/pages count within the current stage
+export interface IngestProgress {
+  stage: 'reading' | 'ocr';
+  page: number;
+  pages: number;
+  // How far through the current page the OCR engine is (0–1), when it reports it
+  fraction?: number;
+  // Set when several files are read for one upload
+  file?: { name: string; index: number; count: number };
+}
+
+export type ProgressCallback = (progress: IngestProgress) => void;
+
+export interface NoteExtractor {
+  name: string;
+  accepts(file: File): boolean;
+  extract(file: File, onProgress?: ProgressCallback): Promise<IngestedNotes>;
+}
+
+const extensionOf = (file: File) => file.name.toLowerCase().split('.').pop() || '';
+
+const collapse = (s: string) => s.replace(/[ \t ]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+const BLOCK_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'li', 'pre', 'blockquote', 'td', 'th', 'dt', 'dd'];
+
+// Walk HTML/XHTML in document order, starting a new block at every heading
+function blocksFromHtml(root: ParentNode, fallbackSection: string, baseLevel = 0): NoteBlock[] {
+  const blocks: NoteBlock[] = [];
+  let current: NoteBlock = { section: fallbackSection, level: baseLevel, text: '' };
+  const nodes = root.querySelectorAll(BLOCK_TAGS.join(','));
+  nodes.forEach(el => {
+    // Nested matches (p inside li, etc.) are covered by their ancestor's text
+    if (el.parentElement?.closest(BLOCK_TAGS.join(','))) return;
+    const text = collapse(el.textContent || '');
+    if (!text) return;
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      if (current.text) blocks.push(current);
+      current = { section: text, level: baseLevel + Number(tag[1]), text: '' };
+    } else {
+      current.text += (current.text ? '\n' : '') + (tag === 'li' ? `- ${text}` : text);
+    }
+  });
+  if (current.text) blocks.push(current);
+  return blocks;
+}
+
+function parseXml(xml: string, type: DOMParserSupportedType = 'application/xml'): Document {
+  return new DOMParser().parseFromString(xml, type);
+}
+
+const markdownExtractor: NoteExtractor = {
+  name: 'markdown',
+  accepts: f => ['md', 'markdown', 'mdown'].includes(extensionOf(f)) || f.type === 'text/markdown',
+  async extract(file) {
+    const blocks: NoteBlock[] = [];
+    let current: NoteBlock = { section: '', level: 0, text: '' };
+    let inFence = false;
+    for (const line of (await file.text()).split(/\r?\n/)) {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (heading) {
+        if (current.text.trim() || current.section) blocks.push({ ...current, text: current.text.trim() });
+        current = { section: heading[2], level: heading[1].length, text: '' };
+      } else {
+        current.text += line + '\n';
+      }
+    }
+    if (current.text.trim() || current.section) blocks.push({ ...current, text: current.text.trim() });
+    return { format: 'markdown', title: blocks.find(b => b.level === 1)?.section, blocks };
+  }
+};
+
+const docxExtractor: NoteExtractor = {
+  name: 'docx',
+  accepts: f => extensionOf(f) === 'docx' || f.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  async extract(file) {
+    const { value: html, messages } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+    if (messages.length) console.log(`[ingestion] docx: ${messages.length} conversion warnings`);
+    const doc = parseXml(`<body>${html}</body>`, 'text/html');
+    const blocks = blocksFromHtml(doc.body, '');
+    return { format: 'docx', title: blocks.find(b => b.level === 1)?.section, blocks };
+  }
+};
+
+const epubExtractor: NoteExtractor = {
+  name: 'epub',
+  accepts: f => extensionOf(f) === 'epub' || f.type === 'application/epub+zip',
+  async extract(file) {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const containerEntry = zip.file('META-INF/container.xml');
+    if (!containerEntry) throw new Error('Not a valid EPUB: missing container.xml');
+    const container = parseXml(await containerEntry.async('string'));
+    const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) throw new Error('EPUB has no package document.');
+    const opfEntry = zip.file(opfPath);
+    if (!opfEntry) throw new Error(`Not a valid EPUB: missing package file ${opfPath}`);
+    const opf = parseXml(await opfEntry.async('string'));
+    const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+
+    const manifest = new Map<string, string>();
+    Array.from(opf.getElementsByTagName('item')).forEach(item => manifest.set(item.getAttribute('id') || '', item.getAttribute('href') || ''));
+    const spine = Array.from(opf.getElementsByTagName('itemref')).map(ref => manifest.get(ref.getAttribute('idref') || '')).filter(Boolean) as string[];
+    const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || undefined;
+
+    const blocks: NoteBlock[] = [];
+    let chapter = 0;
+    for (const href of spine) {
+      const entry = zip.file(baseDir + decodeURIComponent(href.split('#')[0]));
+      if (!entry) continue;
+      const doc = parseXml(await entry.async('string'), 'text/html');
+      const chapterBlocks = blocksFromHtml(doc.body || doc.documentElement, '', 1);
+      if (!chapterBlocks.length) continue;
+      chapter++;
+      const heading = doc.querySelector('h1,h2,h3')?.textContent?.trim() || doc.title?.trim();
+      const label = heading ? `Chapter ${chapter}: ${collapse(heading)}` : `Chapter ${chapter}`;
+      // Untitled leading text and the chapter's own heading both sit under the chapter label
+      chapterBlocks.forEach(b => {
+        blocks.push({ ...b, section: !b.section || b.section === collapse(heading || '') ? label : `${label} › ${b.section}` });
+      });
+    }
+    return { format: 'epub', title, blocks };
+  }
+};
+
+const pptxExtractor: NoteExtractor = {
+  name: 'pptx',
+  accepts: f => extensionOf(f) === 'pptx' || f.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  async extract(file) {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const slideNumber = (path: string) => Number(path.match(/(\d+)\.xml$/)?.[1] || 0);
+    const slidePaths = Object.keys(zip.files).filter(p => /^ppt\/slides\/slide\d+\.xml$/.test(p)).sort((a, b) => slideNumber(a) - slideNumber(b));
+
+    const paragraphs = (doc: Document, skip?: (shape: Element) => boolean) =>
+      Array.from(doc.getElementsByTagName('p:sp'))
+        .filter(shape => !skip?.(shape))
+        .flatMap(shape => Array.from(shape.getElementsByTagName('a:p')))
+        .map(p => collapse(Array.from(p.getElementsByTagName('a:t')).map(t => t.textContent || '').join('')))
+        .filter(Boolean);
+    const placeholderType = (shape: Element) => shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') || '';
+    const isTitle = (shape: Element) => ['title', 'ctrTitle'].includes(placeholderType(shape));
+
+    const blocks: NoteBlock[] = [];
+    for (const path of slidePaths) {
+      const n = slideNumber(path);
+      const slide = parseXml(await zip.file(path)!.async('string'));
+      const titleShape = Array.from(slide.getElementsByTagName('p:sp')).find(isTitle);
+      const title = titleShape ? paragraphs(slide, s => s !== titleShape).join(' ') : '';
+      const body = paragraphs(slide, isTitle);
+
+      // Speaker notes are linked from the slide's relationships file
+      let notes: string[] = [];
+      const rels = zip.file(`ppt/slides/_rels/slide${n}.xml.rels`);
+      const notesTarget = rels && Array.from(parseXml(await rels.async('string')).getElementsByTagName('Relationship'))
+        .map(r => r.getAttribute('Target') || '').find(t => t.includes('notesSlide'));
+      const notesFile = notesTarget && zip.file(`ppt/${notesTarget.replace(/^\.\.\//, '')}`);
+      if (notesFile) {
+        // The notes page repeats the slide image and number; keep only the body placeholder
+        notes = paragraphs(parseXml(await notesFile.async('string')), s => placeholderType(s) !== 'body');
+      }
+
+      const text = [...body.map(t => `- ${t}`), ...(notes.length ? ['Speaker notes:', ...notes] : [])].join('\n');
+      if (!title && !text) continue;
+      blocks.push({ section: title ? `Slide ${n}: ${title}` : `Slide ${n}`, level: 1, text });
+    }
+    return { format: 'pptx', title: blocks[0]?.section.replace(/^Slide \d+:\s*/, ''), blocks };
+  }
+};
+
+// Pages with almost no text layer that still draw an image are scans (or photos saved as PDF)
+const SCANNED_PAGE_CHARS = 16;
+const IMAGE_OPS = new Set([pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject]);
+// Rendered width for OCR; tesseract is most accurate around 300 dpi on a letter-size page
+const OCR_RENDER_WIDTH = 2400;
+
+async function renderForOcr(page: any, number: number): Promise<OcrJob> {
+  const base = page.getViewport({ scale: 1 });
+  const scale = Math.min(4, OCR_RENDER_WIDTH / base.width);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return { number, image: canvas, scale, width: base.width, height: base.height };
+}
+
+const pdfExtractor: NoteExtractor = {
+  name: 'pdf',
+  accepts: f => extensionOf(f) === 'pdf' || f.type === 'application/pdf',
+  async extract(file, onProgress) {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: PdfPage[] = [];
+    const scanned: number[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      onProgress?.({ stage: 'reading', page: i, pages: pdf.numPages });
+      const page = await pdf.getPage(i);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.flatMap((item: any) => {
+        if (typeof item.str !== 'string' || !item.transform) return [];
+        const [a, b, c, d, x, y] = item.transform as number[];
+        const fontFamily = (content.styles as any)[item.fontName]?.fontFamily || '';
+        return [{
+          str: item.str, x, y, width: item.width,
+          fontSize: Math.hypot(c, d) || Math.hypot(a, b) || item.height,
+          bold: /bold|black|heavy|semibold/i.test(`${item.fontName} ${fontFamily}`)
+        }];
+      });
+      pages.push({ number: i, width, height, items });
+      const chars = items.reduce((n, item) => n + item.str.replace(/\s/g, '').length, 0);
+      if (chars < SCANNED_PAGE_CHARS && (await page.getOperatorList()).fnArray.some(op => IMAGE_OPS.has(op))) scanned.push(i);
+    }
+
+    if (scanned.length) {
+      console.log(`[ingestion] ${file.name}: OCR for ${scanned.length} scanned page(s)`);
+      const ocr = await createOcrSession();
+      try {
+        // Rendered one page at a time so only one full-resolution canvas is alive
+        for (const [index, number] of scanned.entries()) {
+          const report = (fraction: number) => onProgress?.({ stage: 'ocr', page: index + 1, pages: scanned.length, fraction });
+          report(0);
+          pages[number - 1] = await ocr.recognize(await renderForOcr(await pdf.getPage(number), number), report);
+        }
+      } finally {
+        await ocr.close();
+      }
+    }
+
+    const blocks = layoutPdf(pages);
+    return { format: 'pdf', title: blocks.find(b => b.page === 1 && b.level === 1)?.heading, blocks };
+  }
+};
+
+const textExtractor: NoteExtractor = {
+  name: 'text',
+  accepts: () => true,
+  async extract(file) {
+    return { format: 'text', blocks: [{ section: '', level: 0, text: (await file.text()).trim() }] };
+  }
+};
+
+// Checked in order; the plain-text extractor catches anything unrecognised
+const extractors: NoteExtractor[] = [pdfExtractor, docxExtractor, epubExtractor, pptxExtractor, markdownExtractor, textExtractor];
+
+// Add or override a format; registered extractors take precedence over the built-ins
+export function registerExtractor(extractor: NoteExtractor) {
+  extractors.unshift(extractor);
+}
+
+export function extractorFor(file: File): NoteExtractor {
+  return extractors.find(e => e.accepts(file))!;
+}
+
+export async function ingestFile(file: File, onProgress?: ProgressCallback): Promise<IngestedNotes> {
+  const extractor = extractorFor(file);
+  const notes = await extractor.extract(file, onProgress);
+  console.log(`[ingestion] ${file.name}: ${extractor.name}, ${notes.blocks.length} blocks`);
+  return notes;
+}
+
+// Photos of notes: the vision model by default, local OCR when configured or when the
+// model call fails (offline, no key, provider without vision)
+export async function ingestImages(images: File[], onProgress?: ProgressCallback): Promise<IngestedNotes> {
+  if (readOcrEngine() === 'vision') {
+    try {
+      return { format: 'image', blocks: [{ section: '', level: 0, text: await extractTextFromImage(images.length === 1 ? images[0] : images) }] };
+    } catch (e) {
+      console.log('[ingestion] vision OCR failed, falling back to local OCR', e);
+    }
+  }
+  const pages = await ocrPages(
+    images.map((image, i) => ({ number: i + 1, image })),
+    (index, fraction) => onProgress?.({ stage: 'ocr', page: index + 1, pages: images.length, fraction })
+  );
+  const blocks = layoutPdf(pages);
+  console.log(`[ingestion] ${images.length} image(s): local OCR, ${blocks.length} blocks`);
+  return { format: 'image', blocks };
+}
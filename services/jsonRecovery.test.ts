@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { recoverJSON, stripCodeFences } from "./jsonRecovery";
+import { JSON_RECOVERY_FIXTURES } from "./jsonRecoveryFixtures";
+
+beforeEach(() => {
+  // Every stage logs what it tried; keep the test output readable
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('recoverJSON fixtures', () => {
+  it.each(JSON_RECOVERY_FIXTURES.map(f => [f.name, f] as const))('%s', (_, fixture) => {
+    const result = recoverJSON(fixture.raw);
+    expect(result.stage).toBe(fixture.stage);
+    expect(result.value).toMatchObject(fixture.expected);
+  });
+});
+
+// Output cut off at any point: every prefix has to come back as a value. Blank input is
+// the one documented throw.
+function expectEveryPrefixRecovers(raw: string) {
+  for (let end = 0; end <= raw.length; end++) {
+    const prefix = raw.slice(0, end);
+    if (!stripCodeFences(prefix)) {
+      expect(() => recoverJSON(prefix), `prefix of ${end} chars`).toThrow(SyntaxError);
+      continue;
+    }
+    let result;
+    expect(() => { result = recoverJSON(prefix); }, `prefix of ${end} chars: ${prefix}`).not.toThrow();
+    expect(result.value, `prefix of ${end} chars: ${prefix}`).toBeTypeOf('object');
+  }
+}
+
+describe('recoverJSON on truncated fixtures', () => {
+  it.each(JSON_RECOVERY_FIXTURES.map(f => [f.name, f] as const))('%s', (_, fixture) => {
+    expectEveryPrefixRecovers(fixture.raw);
+  });
+});
+
+// Seeded so a failure reproduces; the seed is in the test name
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pieces that trip up naive repair: JSON syntax, quotes and backslashes inside strings,
+// and non-ASCII text (half the strings write it as \u escapes, the emoji as a surrogate pair)
+const STRING_PIECES = ['stroke volume', '{', '}', '[', ']', ':', ',', 'key: value', '"', '\\', '\n', '\t', '/', 'é', '→', '😀', ' ', 'true', 'null', '1.5e3'];
+const KEYS = ['message', 'topicId', 'status', 'evidence', 'concepts', 'a', 'nested key', 'k{}', 'quote"d'];
+
+function generateDocument(seed: number): string {
+  const rand = random(seed);
+  const pick = <T>(xs: T[]): T => xs[Math.floor(rand() * xs.length)];
+  const space = () => (rand() < 0.3 ? pick([' ', '\n  ', '\t']) : '');
+
+  const string = () => {
+    const text = Array.from({ length: Math.floor(rand() * 5) }, () => pick(STRING_PIECES)).join('');
+    const escapeNonAscii = rand() < 0.5;
+    return JSON.stringify(text).replace(/[\u0080-\uffff]/g, ch =>
+      escapeNonAscii ? `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}` : ch);
+  };
+  const number = () => pick([
+    String(Math.floor(rand() * 1000) - 500),
+    (rand() * 100).toFixed(3),
+    `${(rand() * 9 + 1).toFixed(2)}e${pick(['', '-', '+'])}${Math.floor(rand() * 20)}`,
+    '0', '-0.5'
+  ]);
+  const value = (depth: number): string => {
+    const roll = rand();
+    if (depth < 4 && roll < 0.25) return object(depth + 1);
+    if (depth < 4 && roll < 0.4) return array(depth + 1);
+    if (roll < 0.7) return string();
+    if (roll < 0.85) return number();
+    return pick(['true', 'false', 'null']);
+  };
+  const array = (depth: number) =>
+    `[${space()}${Array.from({ length: Math.floor(rand() * 4) }, () => value(depth)).join(`,${space()}`)}${space()}]`;
+  const object = (depth: number) =>
+    `{${space()}${Array.from({ length: Math.floor(rand() * 4) + (depth === 1 ? 1 : 0) }, () =>
+      `${JSON.stringify(pick(KEYS) + (rand() < 0.3 ? pick(STRING_PIECES) : ''))}${space()}:${space()}${value(depth)}`
+    ).join(`,${space()}`)}${space()}}`;
+
+  return rand() < 0.8 ? object(1) : array(1);
+}
+
+describe('recoverJSON on truncated generated documents', () => {
+  const seeds = Array.from({ length: 40 }, (_, i) => i + 1);
+
+  it.each(seeds)('seed %i', seed => {
+    const raw = generateDocument(seed);
+    // The generator only writes valid JSON, and the whole document parses untouched
+    expect(recoverJSON(raw)).toMatchObject({ stage: 'direct', value: JSON.parse(raw) });
+    expectEveryPrefixRecovers(raw);
+  });
+});
@@ -0,0 +1,286 @@
+// Recovery pipeline for model output that is supposed to be JSON but often isn't quite:
+// markdown fences, trailing commas, unquoted keys, preambles, and — most often — output
+// cut off by maxOutputTokens. Stages run in order and the first one that parses wins:
+//
+//   direct → clean → slice → repair → truncate → regex
+//
+// Input with no { or [ at all is wrapped as a plain-text session message instead.
+
+export type RecoveryStage = 'direct' | 'clean' | 'slice' | 'repair' | 'truncate' | 'regex' | 'plain-text';
+
+export interface RecoveryLoss {
+  // Characters before the first { or [ that were skipped (preamble, stray prose)
+  leadingChars: number;
+  // Characters dropped from the end by the truncation fallback
+  trailingChars: number;
+  // An unterminated string value was closed
+  closedString: boolean;
+  // Number of objects/arrays that had to be auto-closed
+  closedStructures: number;
+  // Incomplete tail removed during repair (dangling key, partial literal, half an escape)
+  droppedPartial: string | null;
+  // Regex fallback only: fields that could not be found and were filled with defaults
+  defaultedFields: string[];
+}
+
+export interface JSONRecoveryResult<T = any> {
+  value: T;
+  stage: RecoveryStage;
+  lost: RecoveryLoss;
+}
+
+function noLoss(): RecoveryLoss {
+  return { leadingChars: 0, trailingChars: 0, closedString: false, closedStructures: 0, droppedPartial: null, defaultedFields: [] };
+}
+
+// Quotes bare keys and drops trailing commas, but only outside string literals —
+// a value like "note: see p.3, {x: y}" is left exactly as written.
+export function cleanJSON(s: string): string {
+  let out = '';
+  let inStr = false;
+  let lastSignificant = '';
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (inStr) {
+      out += c;
+      if (c === '\\' && i + 1 < s.length) { out += s[++i]; continue; }
+      if (c === '"') { inStr = false; lastSignificant = '"'; }
+      continue;
+    }
+    if (c === '"') { inStr = true; out += c; continue; }
+    if (c === ',' && /^\s*[}\]]/.test(s.slice(i + 1, i + 64))) continue; // trailing comma
+    if ((lastSignificant === '{' || lastSignificant === ',') && /[A-Za-z_$]/.test(c)) {
+      const m = s.slice(i, i + 128).match(/^([A-Za-z_$][\w$]*)(\s*:)/);
+      if (m) {
+        out += `"${m[1]}"${m[2]}`;
+        i += m[0].length - 1;
+        lastSignificant = ':';
+        continue;
+      }
+    }
+    out += c;
+    if (!/\s/.test(c)) lastSignificant = c;
+  }
+  return out;
+}
+
+export interface RepairResult {
+  text: string;
+  closedString: boolean;
+  closedStructures: number;
+  droppedPartial: string | null;
+}
+
+// Closes a JSON document that was cut off mid-stream. Anything that can't be completed
+// honestly — a key with no value, half of `true`, a dangling escape — is dropped rather
+// than guessed, so the result contains only data the model actually produced.
+export function repairTruncatedJSON(s: string): RepairResult {
+  let t = s.trimEnd();
+  const stack: string[] = [];
+  let inStr = false;
+  let strStart = -1;
+  let beforeStr = '';
+  let lastSignificant = '';
+  let dropped = '';
+
+  // Walk the string tracking state properly, including escape sequences
+  for (let i = 0; i < t.length; i++) {
+    const c = t[i];
+    if (inStr) {
+      if (c === '\\') { i++; continue; } // skip escaped char
+      if (c === '"') { inStr = false; lastSignificant = '"'; }
+      continue;
+    }
+    if (c === '"') { inStr = true; strStart = i; beforeStr = lastSignificant; continue; }
+    if (c === '{') stack.push('}');
+    else if (c === '[') stack.push(']');
+    else if (c === '}' || c === ']') stack.pop();
+    if (!/\s/.test(c)) lastSignificant = c;
+  }
+
+  let closedString = false;
+  if (inStr) {
+    const isKey = stack[stack.length - 1] === '}' && (beforeStr === '{' || beforeStr === ',');
+    if (isKey) {
+      // Half a key is useless — drop it
+      dropped = t.slice(strStart) + dropped;
+      t = t.slice(0, strStart);
+    } else {
+      // Cut inside an escape sequence: drop the lone backslash (or partial \uXXXX).
+      // An even run of backslashes is complete escaped backslashes and stays.
+      const esc = t.slice(strStart + 1).match(/(\\+)(u[0-9a-fA-F]{0,3})?$/);
+      if (esc && esc[1].length % 2 === 1) {
+        const partial = '\\' + (esc[2] ?? '');
+        dropped = partial + dropped;
+        t = t.slice(0, t.length - partial.length);
+      }
+      t += '"';
+      closedString = true;
+    }
+  }
+
+  // Strip incomplete tails until the document ends on a complete value or an open bracket
+  for (let changed = true; changed;) {
+    changed = false;
+    t = t.trimEnd();
+    const inObject = stack[stack.length - 1] === '}';
+    const rules: RegExp[] = [
+      /,$/,                                                   // trailing comma
+      /"(?:[^"\\]|\\.)*"\s*:$/,                               // key with no value
+      /(?<=[:\[,]\s*)(?:t|tr|tru|f|fa|fal|fals|n|nu|nul|-)$/, // partial literal
+      /(?<=\d)(?:\.|[eE][+-]?)$/                              // number cut at . or exponent
+    ];
+    if (inObject) rules.push(/(?<=[{,]\s*)"(?:[^"\\]|\\.)*"$/); // complete key, no colon yet
+    for (const rule of rules) {
+      const m = t.match(rule);
+      if (m && m.index !== undefined) {
+        dropped = t.slice(m.index) + dropped;
+        t = t.slice(0, m.index);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  return {
+    text: t + [...stack].reverse().join(''),
+    closedString,
+    closedStructures: stack.length,
+    droppedPartial: dropped.trim() ? dropped.trim() : null
+  };
+}
+
+// Index just past the last element that closed at depth ≤ 1, i.e. the last point where
+// the top-level structure held only complete children. -1 if there is none.
+function lastSafeEnd(slice: string): number {
+  let depth = 0, inStr = false, safeEnd = -1;
+  for (let i = 0; i < slice.length; i++) {
+    const c = slice[i];
+    if (inStr) {
+      if (c === '\\') { i++; continue; }
+      if (c === '"') inStr = false;
+    } else {
+      if (c === '"') inStr = true;
+      else if (c === '{' || c === '[') depth++;
+      else if (c === '}' || c === ']') { depth--; if (depth <= 1) safeEnd = i; }
+    }
+  }
+  return safeEnd;
+}
+
+// Shape of a session turn, used when the response contained no usable JSON structure
+const TURN_DEFAULTS = { isFollowUp: false, currentTopicId: '', sessionShouldEnd: false, overtimeNeeded: false };
+
+function regexFallback(stripped: string): { value: any; defaultedFields: string[] } {
+  const defaultedFields: string[] = [];
+  const extractString = (key: string) => {
+    const m = stripped.match(new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+    return m ? m[1] : null;
+  };
+  const extractBool = (key: string) => {
+    const m = stripped.match(new RegExp(`"${key}"\\s*:\\s*(true|false)`));
+    return m ? m[1] === 'true' : null;
+  };
+  const withDefault = <V>(key: string, found: V | null, fallback: V): V => {
+    if (found === null) { defaultedFields.push(key); return fallback; }
+    return found;
+  };
+
+  // Try to get a partial message string (may be truncated)
+  const msgMatch = stripped.match(/"message"\s*:\s*"([\s\S]*)/);
+  const partialMsg = msgMatch ? msgMatch[1].replace(/\\n/g, ' ').replace(/\\"/g, '"').replace(/\\./g, '').slice(0, 200) : '';
+  const value = {
+    isFollowUp: withDefault('isFollowUp', extractBool('isFollowUp'), TURN_DEFAULTS.isFollowUp),
+    currentTopicId: withDefault('currentTopicId', extractString('currentTopicId'), TURN_DEFAULTS.currentTopicId),
+    sessionShouldEnd: withDefault('sessionShouldEnd', extractBool('sessionShouldEnd'), TURN_DEFAULTS.sessionShouldEnd),
+    overtimeNeeded: withDefault('overtimeNeeded', extractBool('overtimeNeeded'), TURN_DEFAULTS.overtimeNeeded),
+    message: withDefault('message', partialMsg || null, 'Go on.'),
+  };
+  return { value, defaultedFields };
+}
+
+export function stripCodeFences(text: string): string {
+  return text
+    .replace(/^```(?:json)?\s*/im, '')
+    .replace(/\s*```\s*$/im, '')
+    .trim();
+}
+
+// Runs the full pipeline and reports which stage succeeded and what was lost on the way.
+// Throws only when the input is blank.
+export function recoverJSON<T = any>(text: string): JSONRecoveryResult<T> {
+  const stripped = stripCodeFences(text);
+  const result = (value: any, stage: RecoveryStage, lost: Partial<RecoveryLoss> = {}): JSONRecoveryResult<T> =>
+    ({ value, stage, lost: { ...noLoss(), ...lost } });
+
+  try { return result(JSON.parse(stripped), 'direct'); } catch (e1) {
+    console.warn('[recoverJSON] Direct parse failed:', (e1 as Error).message, '| raw:', stripped.slice(0, 200));
+  }
+
+  try { return result(JSON.parse(cleanJSON(stripped)), 'clean'); } catch {}
+
+  const objStart = stripped.indexOf('{');
+  const arrStart = stripped.indexOf('[');
+  const start = objStart === -1 ? arrStart : arrStart === -1 ? objStart : Math.min(objStart, arrStart);
+  if (start === -1) {
+    // Model returned plain text (common in personality mode) — wrap it as the message
+    const plainText = stripped.replace(/^["']|["']$/g, '').trim();
+    if (plainText.length > 0) {
+      console.warn('[recoverJSON] No JSON found, wrapping plain text as message:', plainText.slice(0, 100));
+      return result({ message: plainText, ...TURN_DEFAULTS }, 'plain-text', { defaultedFields: Object.keys(TURN_DEFAULTS) });
+    }
+    console.error('[recoverJSON] No JSON structure found:', stripped.slice(0, 300));
+    throw new SyntaxError('No JSON found in response');
+  }
+
+  const slice = stripped.slice(start);
+  const leadingChars = start;
+
+  try { return result(JSON.parse(slice), 'slice', { leadingChars }); } catch (e2) {
+    console.warn('[recoverJSON] Slice parse failed:', (e2 as Error).message);
+  }
+
+  try { return result(JSON.parse(cleanJSON(slice)), 'slice', { leadingChars }); } catch {}
+
+  for (const candidate of [slice, cleanJSON(slice)]) {
+    const repaired = repairTruncatedJSON(candidate);
+    try {
+      const value = JSON.parse(repaired.text);
+      console.info('[recoverJSON] Repaired, tail:', repaired.text.slice(-80));
+      return result(value, 'repair', {
+        leadingChars,
+        closedString: repaired.closedString,
+        closedStructures: repaired.closedStructures,
+        droppedPartial: repaired.droppedPartial
+      });
+    } catch (e3) {
+      console.warn('[recoverJSON] Repair parse failed:', (e3 as Error).message);
+    }
+  }
+
+  // Truncate to last safe closed element
+  const safeEnd = lastSafeEnd(slice);
+  if (safeEnd > 0) {
+    try {
+      const repaired = repairTruncatedJSON(slice.slice(0, safeEnd + 1));
+      const value = JSON.parse(repaired.text);
+      console.warn('[recoverJSON] Using truncated fallback, kept', safeEnd + 1, 'of', slice.length, 'chars');
+      return result(value, 'truncate', {
+        leadingChars,
+        trailingChars: slice.length - (safeEnd + 1),
+        closedStructures: repaired.closedStructures
+      });
+    } catch (e4) {
+      console.warn('[recoverJSON] Truncation fallback failed:', (e4 as Error).message);
+    }
+  }
+
+  // Final fallback: extract any valid fields we can via regex, reconstruct minimal object
+  const { value, defaultedFields } = regexFallback(stripped);
+  console.warn('[recoverJSON] Used regex fallback, recovered:', JSON.stringify(value).slice(0, 200));
+  return result(value, 'regex', { leadingChars, defaultedFields });
+}
+
+export function safeParseJSON(text: string): any {
+  return recoverJSON(text).value;
+}
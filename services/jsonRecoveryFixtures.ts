@@ -0,0 +1,100 @@
+import type { RecoveryStage } from "./jsonRecovery";
+
+// Model outputs that broke parsing in real sessions, with the stage that should recover
+// each one and the fields that must survive. Kept next to the parser so the corpus grows
+// with every new failure seen in the error log.
+
+export interface JSONRecoveryFixture {
+  name: string;
+  raw: string;
+  stage: RecoveryStage;
+  // Subset of the recovered value that must match exactly
+  expected: Record<string, unknown>;
+}
+
+export const JSON_RECOVERY_FIXTURES: JSONRecoveryFixture[] = [
+  {
+    name: 'clean turn',
+    raw: '{"message":"Nice. What is preload?","isFollowUp":false,"currentTopicId":"frank_starling","sessionShouldEnd":false,"overtimeNeeded":false}',
+    stage: 'direct',
+    expected: { message: 'Nice. What is preload?', currentTopicId: 'frank_starling' }
+  },
+  {
+    name: 'json fence with trailing newline',
+    raw: '```json\n{"message":"Cool, let\'s dig in. What sets cardiac output?","isFollowUp":false,"currentTopicId":"cardiac_output","sessionShouldEnd":false,"overtimeNeeded":false}\n```\n',
+    stage: 'direct',
+    expected: { currentTopicId: 'cardiac_output' }
+  },
+  {
+    name: 'trailing commas in nested topicUpdate',
+    raw: '{"message":"Yep.","isFollowUp":false,"currentTopicId":"a","topicUpdate":{"topicId":"a","status":"strong","evidence":"Gave formula",},"sessionShouldEnd":false,"overtimeNeeded":false,}',
+    stage: 'clean',
+    expected: { topicUpdate: { topicId: 'a', status: 'strong', evidence: 'Gave formula' } }
+  },
+  {
+    name: 'unquoted keys leave word: inside strings alone',
+    raw: '{message: "Note: the ratio is key. Why: what drives it?", isFollowUp: false, currentTopicId: "ratios", sessionShouldEnd: false, overtimeNeeded: false}',
+    stage: 'clean',
+    expected: { message: 'Note: the ratio is key. Why: what drives it?' }
+  },
+  {
+    name: 'string value containing {word: and ,word:',
+    raw: '{"message":"Recall {stroke: volume}, rate: 70 — what else?", isFollowUp: true}',
+    stage: 'clean',
+    expected: { message: 'Recall {stroke: volume}, rate: 70 — what else?', isFollowUp: true }
+  },
+  {
+    name: 'preamble before object',
+    raw: 'Here is the JSON you asked for:\n{"title":"Renal","topics":[]}',
+    stage: 'slice',
+    expected: { title: 'Renal', topics: [] }
+  },
+  {
+    name: 'turn cut mid-evidence',
+    raw: '{"message":"Stretch raises force. Which valves close first?","isFollowUp":false,"currentTopicId":"cardiac_cycle","topicUpdate":{"topicId":"frank_starling","status":"weak","evidence":"Knew preload but not the length-tens',
+    stage: 'repair',
+    expected: { message: 'Stretch raises force. Which valves close first?', topicUpdate: { topicId: 'frank_starling', status: 'weak', evidence: 'Knew preload but not the length-tens' } }
+  },
+  {
+    name: 'topic extraction cut inside a concepts array',
+    raw: '{"title":"Cardiac Physiology","topics":[{"id":"cardiac_output","name":"Cardiac Output","concepts":["stroke volume","heart rate"],"noteSection":"1"},{"id":"cardiac_cycle","name":"Cardiac Cycle","concepts":["systole","diast',
+    stage: 'repair',
+    expected: { title: 'Cardiac Physiology' }
+  },
+  {
+    name: 'extraction cut after a key',
+    raw: '{"title":"Pharmacology","topics":[{"id":"beta_blockers","name":"Beta blockers","concepts":["bradycardia"],"noteSection"',
+    stage: 'repair',
+    expected: { title: 'Pharmacology', topics: [{ id: 'beta_blockers', name: 'Beta blockers', concepts: ['bradycardia'] }] }
+  },
+  {
+    name: 'turn cut after colon',
+    raw: '{"message":"Correct.","isFollowUp":',
+    stage: 'repair',
+    expected: { message: 'Correct.' }
+  },
+  {
+    name: 'turn cut inside boolean literal',
+    raw: '{"message":"Correct. Next: diastole?","isFollowUp":false,"currentTopicId":"cycle","sessionShouldEnd":fal',
+    stage: 'repair',
+    expected: { message: 'Correct. Next: diastole?', currentTopicId: 'cycle' }
+  },
+  {
+    name: 'message cut inside an escape sequence',
+    raw: '{"message":"She said \\"close the AV valves\\',
+    stage: 'repair',
+    expected: { message: 'She said "close the AV valves' }
+  },
+  {
+    name: 'report with junk after the object',
+    raw: '{"topics":[{"topicId":"a","topicName":"A","status":"strong","evidence":"ok"}],"revisitList":[]}\nLet me know if you need anything else!',
+    stage: 'truncate',
+    expected: { revisitList: [] }
+  },
+  {
+    name: 'personality plain text',
+    raw: 'haha nah not quite, think about what the valves are doing',
+    stage: 'plain-text',
+    expected: { message: 'haha nah not quite, think about what the valves are doing', isFollowUp: false }
+  }
+];
@@ -0,0 +1,108 @@
+// Incremental reader for a JSON object arriving in chunks, so one top-level string field
+// (the session turn's "message") can be shown while the rest is still being generated.
+// It only tracks what it needs: nesting depth, string boundaries and the top-level keys.
+// Anything before the opening brace (code fences, a preamble) is skipped, bare keys are
+// accepted, and escapes split across chunks are handled. The finished text still goes
+// through recoverJSON() and the validators; this is for display only.
+
+export interface StreamedField {
+  // Decoded value so far; empty until the field starts
+  value: string;
+  // The closing quote has arrived
+  done: boolean;
+}
+
+export interface JSONFieldStream {
+  push(chunk: string): StreamedField;
+  // The top-level object has closed
+  readonly complete: boolean;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+export function createJSONFieldStream(field: string): JSONFieldStream {
+  let started = false;
+  let complete = false;
+  let depth = 0;
+  // Where we are in the top-level object: reading a key, about to read a value, or past it
+  let expect: 'key' | 'value' | 'after' = 'key';
+  let inString = false;
+  let role: 'key' | 'target' | 'other' = 'other';
+  let escape = false;
+  let unicode: string | null = null;
+  let key = '';
+  let bareKey = false;
+  let lastKey = '';
+  let value = '';
+  let done = false;
+
+  const append = (s: string) => {
+    if (role === 'key') key += s;
+    else if (role === 'target') value += s;
+  };
+
+  function read(c: string) {
+    if (!started) {
+      if (c === '{') { started = true; depth = 1; expect = 'key'; }
+      return;
+    }
+    if (inString) {
+      if (unicode !== null) {
+        unicode += c;
+        if (unicode.length === 4) { append(String.fromCharCode(parseInt(unicode, 16) || 0xfffd)); unicode = null; }
+      } else if (escape) {
+        escape = false;
+        if (c === 'u') unicode = '';
+        else append(ESCAPES[c] ?? c);
+      } else if (c === '\\') {
+        escape = true;
+      } else if (c === '"') {
+        inString = false;
+        if (role === 'key') lastKey = key;
+        if (role === 'target') done = true;
+      } else {
+        append(c);
+      }
+      return;
+    }
+
+    if (c === '"') {
+      inString = true;
+      role = depth === 1 && expect === 'key' ? 'key'
+        : depth === 1 && expect === 'value' && lastKey === field && !done ? 'target'
+        : 'other';
+      if (role === 'key') key = '';
+      if (depth === 1 && expect === 'value') expect = 'after';
+    } else if (c === '{' || c === '[') {
+      if (depth === 1 && expect === 'value') expect = 'after';
+      depth++;
+    } else if (c === '}' || c === ']') {
+      depth--;
+      if (depth === 0) complete = true;
+    } else if (depth === 1) {
+      if (expect === 'key' && /[\w$]/.test(c)) {
+        if (!bareKey) { key = ''; bareKey = true; }
+        key += c;
+      } else if (c === ':') {
+        if (bareKey) { lastKey = key; bareKey = false; }
+        expect = 'value';
+      } else if (c === ',') {
+        expect = 'key';
+      } else if (expect === 'value' && !/\s/.test(c)) {
+        // A literal (true, 12, null): not the field we're after
+        expect = 'after';
+      }
+    }
+  }
+
+  return {
+    push(chunk) {
+      for (const c of chunk) {
+        if (complete) break;
+        read(c);
+      }
+      return { value, done };
+    },
+    get complete() { return complete; }
+  };
+}
@@ -0,0 +1,85 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatProvider } from "./openAICompatProvider";
+
+// Provider-neutral chat turn. 'model' matches Gemini's role name; adapters translate it.
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64, no data: prefix
+}
+
+// Which service call issued the request — real providers ignore it, the mock provider routes on it.
+export type LLMRequestTag = 'extractTopics' | 'mergeTopics' | 'sessionTurn' | 'report' | 'personality' | 'vision';
+
+export interface LLMRequest {
+  tag?: LLMRequestTag;
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  maxOutputTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(req: LLMRequest): Promise<string>;
+  stream(req: LLMRequest): AsyncGenerator<string>;
+  vision(images: LLMImage[], prompt: string, opts?: { maxOutputTokens?: number }): Promise<string>;
+}
+
+export type LLMProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  model: string;
+  visionModel: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'mock'
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp server uses http://localhost:8080/v1
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export function readLLMConfig(): LLMConfig {
+  const env = import.meta.env;
+  const provider: LLMProviderKind = env.VITE_LLM_PROVIDER === 'openai' || env.VITE_LLM_PROVIDER === 'mock'
+    ? env.VITE_LLM_PROVIDER
+    : 'gemini';
+  const model = env.VITE_LLM_MODEL || DEFAULT_MODELS[provider];
+  return {
+    provider,
+    model,
+    visionModel: env.VITE_LLM_VISION_MODEL || model,
+    apiKey: provider === 'gemini' ? (env.VITE_GEMINI_API_KEY_1 || '') : (env.VITE_LLM_API_KEY || ''),
+    baseUrl: (env.VITE_LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')
+  };
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const config = readLLMConfig();
+    // The mock provider is never built here: installDemoProvider puts it in place at startup
+    // (and scripted sessions swap in their own), so the fixtures stay off this path
+    if (config.provider === 'mock') throw new Error('VITE_LLM_PROVIDER=mock, but the demo provider was not installed before the first model call');
+    activeProvider = config.provider === 'openai' ? createOpenAICompatProvider(config) : createGeminiProvider(config);
+    console.info('[llmProvider] using', activeProvider.name, '| model:', config.model);
+  }
+  return activeProvider;
+}
+
+// Swap the provider at runtime (scripted sessions, fixtures). Pass null to fall back to config.
+export function setLLMProvider(provider: LLMProvider | null): LLMProvider | null {
+  const previous = activeProvider;
+  activeProvider = provider;
+  return previous;
+}
@@ -0,0 +1,92 @@
+// Minimal promise wrapper over IndexedDB object stores, with an in-memory fallback for
+// environments without IndexedDB (private browsing in some browsers, headless runs).
+
+import type { ReviewItem, SessionCheckpoint } from "../types";
+import type { OutboxEntry, StoredReport } from "./syncQueue";
+import type { UploadRecord } from "./studyRepository";
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  put(value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// What each object store holds
+export interface StoreRecords {
+  reports: StoredReport;
+  outbox: OutboxEntry;
+  checkpoints: SessionCheckpoint;
+  reviews: ReviewItem;
+  uploads: UploadRecord;
+}
+
+export type StoreName = keyof StoreRecords;
+
+const DB_NAME = 'crosscheck';
+const DB_VERSION = 3;
+const KEY_PATHS: { [K in StoreName]: keyof StoreRecords[K] & string } = { reports: 'sessionId', outbox: 'id', checkpoints: 'key', reviews: 'id', uploads: 'id' };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        (Object.keys(KEY_PATHS) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: KEY_PATHS[name] });
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { dbPromise = null; reject(req.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function request<R>(name: StoreName, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+  return openDB().then(db => new Promise<R>((resolve, reject) => {
+    const req = fn(db.transaction(name, mode).objectStore(name));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+}
+
+function idbStore<T>(name: StoreName): KeyValueStore<T> {
+  return {
+    get: key => request<T | undefined>(name, 'readonly', s => s.get(key)),
+    getAll: () => request<T[]>(name, 'readonly', s => s.getAll()),
+    put: value => request(name, 'readwrite', s => s.put(value)).then(() => {}),
+    delete: key => request(name, 'readwrite', s => s.delete(key)).then(() => {})
+  };
+}
+
+// keyPath names the field the value is stored under, like an object store's keyPath
+export function memoryStore<T>(keyPath: keyof T & string): KeyValueStore<T> {
+  const data = new Map<string, T>();
+  return {
+    async get(key) { return data.get(key); },
+    async getAll() { return [...data.values()]; },
+    async put(value) { data.set(String(value[keyPath]), value); },
+    async delete(key) { data.delete(key); }
+  };
+}
+
+function openStore<K extends StoreName>(name: K): KeyValueStore<StoreRecords[K]> {
+  return typeof indexedDB === 'undefined' ? memoryStore<StoreRecords[K]>(KEY_PATHS[name]) : idbStore<StoreRecords[K]>(name);
+}
+
+// One per store; idbStore only opens the database on first use
+const stores: { [K in StoreName]: KeyValueStore<StoreRecords[K]> } = {
+  reports: openStore('reports'),
+  outbox: openStore('outbox'),
+  checkpoints: openStore('checkpoints'),
+  reviews: openStore('reviews'),
+  uploads: openStore('uploads')
+};
+
+export function getStore<K extends StoreName>(name: K): KeyValueStore<StoreRecords[K]> {
+  return stores[name];
+}
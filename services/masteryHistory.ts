@@ -0,0 +1,61 @@
+import { KnowledgeReport, MasteryTrend, NoteSetHistory, TopicStatus, TopicTimeline } from "../types";
+import { matchTopic } from "./noteIdentity";
+import { slugify } from "./responseSchemas";
+
+// Per-topic mastery over time, grouped by note set. Reports from before note-set ids existed
+// are grouped by title. Within a note set, each report's topics are matched onto the
+// timelines built so far, so a topic renamed by a later re-extraction continues its line.
+
+const STATUS_SCORE: Record<Exclude<TopicStatus, 'untested'>, number> = { revisit: 0, weak: 1, strong: 2 };
+
+export function noteSetKey(report: KnowledgeReport): string {
+  return report.noteSetId || `title:${slugify(report.uploadTitle)}`;
+}
+
+// Compares the last two sessions in which the topic was actually tested
+export function masteryTrend(timeline: Pick<TopicTimeline, 'points'>): MasteryTrend {
+  const tested = timeline.points.filter(p => p.status !== 'untested');
+  if (tested.length < 2) return 'new';
+  const [prev, last] = tested.slice(-2).map(p => STATUS_SCORE[p.status as keyof typeof STATUS_SCORE]);
+  return last > prev ? 'improving' : last < prev ? 'declining' : 'steady';
+}
+
+export function buildMasteryHistory(reports: KnowledgeReport[]): NoteSetHistory[] {
+  const groups = new Map<string, KnowledgeReport[]>();
+  [...reports].sort((a, b) => a.date.localeCompare(b.date)).forEach(r => {
+    const key = noteSetKey(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+
+  const history: NoteSetHistory[] = [];
+  groups.forEach((group, noteSetId) => {
+    const timelines: (TopicTimeline & { concepts: string[] })[] = [];
+    for (const report of group) {
+      const claimed = new Set<TopicTimeline>();
+      for (const perf of report.topics) {
+        const candidates = timelines.filter(t => !claimed.has(t)).map(t => ({ ...t, id: t.topicId, name: t.topicName }));
+        const match = matchTopic({ id: perf.topicId, name: perf.topicName, concepts: perf.concepts || [] }, candidates);
+        let timeline = match ? timelines.find(t => t.topicId === match.topicId)! : undefined;
+        if (!timeline) {
+          timeline = { topicId: perf.topicId, topicName: perf.topicName, noteSection: perf.noteSection, concepts: [], points: [], trend: 'new' };
+          timelines.push(timeline);
+        }
+        claimed.add(timeline);
+        // Latest name and concepts win so matching follows the topic as it drifts
+        timeline.topicName = perf.topicName;
+        timeline.noteSection = perf.noteSection ?? timeline.noteSection;
+        timeline.concepts = perf.concepts || timeline.concepts;
+        timeline.points.push({ sessionId: report.sessionId, date: report.date, status: perf.status });
+      }
+    }
+    const last = group[group.length - 1];
+    history.push({
+      noteSetId,
+      title: last.uploadTitle,
+      sessionCount: group.length,
+      lastDate: last.date,
+      topics: timelines.map(({ concepts: _concepts, ...t }) => ({ ...t, trend: masteryTrend(t) }))
+    });
+  });
+  return history.sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+}
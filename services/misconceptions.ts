@@ -0,0 +1,78 @@
+import { CheckSession, Misconception, MisconceptionOutcome, MisconceptionStage, QAMessage, SessionTurnResponse } from "../types";
+import { slugify } from "./responseSchemas";
+
+// The misconception ledger. Misconceptions come from the rubric grade on each answer and
+// are corrected one at a time, in the order they were stated: explain and contrast, a
+// fresh re-check question, then a verdict on the re-check answer. The session prompt
+// tells the examiner which step is due; applyTurn advances the ledger after each reply.
+
+const NEXT_STAGE: Partial<Record<MisconceptionStage, MisconceptionStage>> = { explain: 'recheck', recheck: 'verdict' };
+
+export function isOpen(m: Misconception): boolean {
+  return m.stage !== 'resolved' && m.stage !== 'unresolved';
+}
+
+// The misconception being corrected right now
+export function activeMisconception(session: Pick<CheckSession, 'misconceptions'>): Misconception | undefined {
+  return session.misconceptions?.find(isOpen);
+}
+
+// Fold a reply into the ledger. `answer` is the message the reply answers, if it was the
+// student's. The reply did the active misconception's due step, so that one moves on; the
+// grade's new misconceptions join the queue. With nothing being corrected, the reply
+// already explained the first new one (see the session prompt), so it goes straight to the
+// re-check. Anything matching an open or unresolved entry on the topic is a repeat.
+export function updateMisconceptions(
+  ledger: Misconception[] = [],
+  turn: SessionTurnResponse,
+  answer: QAMessage | undefined
+): Misconception[] {
+  if (!answer || answer.role !== 'user') return ledger;
+  const active = ledger.find(isOpen);
+  let next = ledger.map(m => {
+    if (m !== active) return m;
+    if (m.stage !== 'verdict') return { ...m, stage: NEXT_STAGE[m.stage]! };
+    const resolved = turn.misconceptionResolved
+      ?? (!!turn.grade && turn.grade.accuracy === 2 && !turn.grade.misconceptions.length);
+    return { ...m, stage: resolved ? 'resolved' as const : 'unresolved' as const };
+  });
+
+  const grade = turn.grade;
+  if (!grade) return next;
+  let explained = !active;
+  grade.misconceptions.forEach((statement, i) => {
+    const repeat = next.some(m => m.topicId === grade.topicId && m.stage !== 'resolved' && slugify(m.statement) === slugify(statement));
+    if (repeat) return;
+    next = [...next, { id: `${answer.id}:${i}`, topicId: grade.topicId, statement, messageId: answer.id, stage: explained ? 'recheck' : 'explain' }];
+    explained = false;
+  });
+  return next;
+}
+
+export function misconceptionOutcomes(session: Pick<CheckSession, 'misconceptions' | 'topics'>): MisconceptionOutcome[] {
+  return (session.misconceptions || []).map(m => {
+    const topic = session.topics.find(t => t.id === m.topicId);
+    return {
+      statement: m.statement,
+      topicId: m.topicId,
+      topicName: topic?.name ?? m.topicId,
+      ...(topic?.noteSection ? { noteSection: topic.noteSection } : {}),
+      resolved: m.stage === 'resolved'
+    };
+  });
+}
+
+// What the examiner's next reply has to do for the misconception being corrected
+export function remediationInstruction(session: Pick<CheckSession, 'misconceptions' | 'topics'>): string {
+  const active = activeMisconception(session);
+  if (!active) return '';
+  const topic = session.topics.find(t => t.id === active.topicId)?.name ?? active.topicId;
+  const step = active.stage === 'explain'
+    ? `EXPLAIN: Don't move on. Say what's wrong with this idea and give the correct one, then ask the student to put the two side by side (what each predicts in one concrete case).`
+    : active.stage === 'recheck'
+      ? `RE-CHECK: Acknowledge their comparison in a few words, then ask ONE fresh question, on a different case, that someone holding this misconception would get wrong.`
+      : `VERDICT: The student's last answer was the re-check. Set "misconceptionResolved" to true if it was free of the misconception, false if not (then restate the correct idea in one sentence). Then move on.`;
+  return `CORRECTING A MISCONCEPTION on ${topic}: "${active.statement}"
+${step}
+If your grade flags another misconception, just record it; it will be corrected after this one.`;
+}
@@ -0,0 +1,188 @@
+import type { MockStep } from "./mockProvider";
+import type { SessionFixture } from "./scriptedSession";
+
+// Scripted model outputs for the mock provider. Several are deliberately broken the way
+// Gemini output breaks in practice (fences, trailing commas, truncation, plain text, wrong
+// field values) so they exercise JSON recovery and schema validation as well as the session flow.
+
+const CARDIAC_NOTES = `# Cardiac Physiology
+
+## 1. Cardiac Output
+Cardiac output (CO) = stroke volume (SV) × heart rate (HR). Resting CO is about 5 L/min.
+
+## 2. Frank-Starling Law
+Increased venous return raises preload, stretching sarcomeres toward optimal length and increasing force of contraction.
+
+## 3. Cardiac Cycle
+Systole begins with isovolumetric contraction: AV valves close, semilunar valves stay shut until ventricular pressure exceeds arterial pressure.`;
+
+const CARDIAC_TOPICS = {
+  title: 'Cardiac Physiology',
+  topics: [
+    { id: 'cardiac_output', name: 'Cardiac Output', concepts: ['stroke volume', 'heart rate', 'CO = SV × HR'], noteSection: '1. Cardiac Output' },
+    { id: 'frank_starling', name: 'Frank-Starling Law', concepts: ['preload', 'sarcomere length', 'venous return'], noteSection: '2. Frank-Starling Law' },
+    { id: 'cardiac_cycle', name: 'Cardiac Cycle', concepts: ['systole', 'diastole', 'isovolumetric contraction'], noteSection: '3. Cardiac Cycle' }
+  ]
+};
+
+const CARDIAC_REPORT = {
+  topics: [
+    { topicId: 'cardiac_output', topicName: 'Cardiac Output', status: 'strong', evidence: 'Stated CO = SV × HR and applied it to exercise.', noteSection: '1. Cardiac Output' },
+    { topicId: 'frank_starling', topicName: 'Frank-Starling Law', status: 'weak', evidence: 'Linked preload to stretch but not to force.', noteSection: '2. Frank-Starling Law' },
+    { topicId: 'cardiac_cycle', topicName: 'Cardiac Cycle', status: 'revisit', evidence: 'Believed semilunar valves open first in systole.', noteSection: '3. Cardiac Cycle' }
+  ],
+  revisitList: [
+    { concept: 'length-tension relationship', topicName: 'Frank-Starling Law', noteSection: '2. Frank-Starling Law' },
+    { concept: 'isovolumetric contraction', topicName: 'Cardiac Cycle', noteSection: '3. Cardiac Cycle' }
+  ]
+};
+
+// Full run: truncated extraction, fenced/trailing-comma/truncated/plain-text turns,
+// a retryable 503, a turn that fails validation and is re-asked, near-miss values
+// that get coerced, a hallucinated topicId, overtime, then a clean report.
+export const CARDIAC_SESSION_FIXTURE: SessionFixture = {
+  name: 'cardiac-overtime',
+  notes: CARDIAC_NOTES,
+  duration: 15,
+  answers: [
+    { text: 'Cardiac output is stroke volume times heart rate, so it rises with exercise.', elapsedSeconds: 120 },
+    { text: 'More venous return means more stretch on the ventricle.', elapsedSeconds: 180 },
+    { text: "I don't know", elapsedSeconds: 200 },
+    { text: 'The semilunar valves open first when systole starts.', elapsedSeconds: 420 },
+    { text: 'Both sets of valves are shut so volume stays the same.', elapsedSeconds: 90 },
+    { text: 'And the stretch lengthens sarcomeres toward optimal overlap, so force goes up.', elapsedSeconds: 60 },
+    { text: 'Pressure rises until it beats aortic pressure, then the aortic valve opens.', elapsedSeconds: 60 }
+  ],
+  script: [
+    // Output cap hit mid-concept
+    { tag: 'extractTopics', response: JSON.stringify(CARDIAC_TOPICS).slice(0, -60) },
+    { tag: 'sessionTurn', response: '```json\n{"message":"Cool, let\'s dig in. What determines cardiac output?","isFollowUp":false,"currentTopicId":"cardiac_output","sessionShouldEnd":false,"overtimeNeeded":false}\n```' },
+    { tag: 'sessionTurn', response: '{"message":"Yep, that\'s it. What does preload actually mean?","isFollowUp":false,"currentTopicId":"frank_starling","topicUpdate":{"topicId":"cardiac_output","status":"strong","evidence":"Gave the formula and applied it",},"sessionShouldEnd":false,"overtimeNeeded":false,}' },
+    { tag: 'sessionTurn', error: { message: 'The model is overloaded', status: 503 } },
+    { tag: 'sessionTurn', response: { message: 'Right direction. And what does that stretch do to force?', isFollowUp: true, currentTopicId: 'frank_starling', sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: '{"message":"Stretch moves sarcomeres toward optimal length, so force rises. Which valves close first in systole?","isFollowUp":false,"currentTopicId":"cardiac_cycle","topicUpdate":{"topicId":"frank_starling","status":"weak","evidence":"Knew preload but not the length-tens' },
+    // Personality-style plain text with no JSON at all
+    { tag: 'sessionTurn', response: 'Not quite. The AV valves close first. So what is happening during isovolumetric contraction?' },
+    // No message at all — forces a re-ask; the retry uses a topic name and "ok" as a status
+    { tag: 'sessionTurn', response: '{"isFollowUp":true,"currentTopicId":"cardiac_cycle","sessionShouldEnd":false,"overtimeNeeded":false}' },
+    { tag: 'sessionTurn', response: { message: 'Better. Walk me through when the aortic valve opens.', isFollowUp: 'true', currentTopicId: 'Cardiac Cycle', topicUpdate: { topicId: 'Frank-Starling Law', status: 'ok', evidence: 'Corrected the length-tension link when asked again' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Correct. Walk me through when the aortic valve opens.', isFollowUp: true, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'cardiac_cycle', status: 'revisit', evidence: 'Started with the semilunar-valves-first misconception, corrected after prompting' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    // topicId that was never extracted — must not reach topicPerformances
+    { tag: 'sessionTurn', response: { message: 'Correct. That covers everything.', isFollowUp: false, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'valve_mechanics', status: 'strong', evidence: 'Hallucinated topic' }, sessionShouldEnd: true, overtimeNeeded: false } },
+    { tag: 'report', response: CARDIAC_REPORT }
+  ]
+};
+
+// Short run: everything strong before time is up, so time-up ends the session directly,
+// and report generation fails hard so the local fallback report is used.
+export const STRONG_TIME_UP_FIXTURE: SessionFixture = {
+  name: 'strong-time-up-fallback-report',
+  notes: CARDIAC_NOTES,
+  duration: 15,
+  answers: [
+    { text: 'CO is SV times HR.', elapsedSeconds: 200 },
+    { text: 'Preload stretches sarcomeres toward optimal length, raising force.', elapsedSeconds: 200 },
+    { text: 'AV valves close, all valves shut, volume constant, pressure climbs.', elapsedSeconds: 200 },
+    { text: 'Anything else?', elapsedSeconds: 400 }
+  ],
+  script: [
+    { tag: 'extractTopics', response: CARDIAC_TOPICS },
+    { tag: 'sessionTurn', response: { message: "Alright, let's see what you've got. What's cardiac output?", isFollowUp: false, currentTopicId: 'cardiac_output', sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Nice. What is preload?', isFollowUp: false, currentTopicId: 'frank_starling', topicUpdate: { topicId: 'cardiac_output', status: 'strong', evidence: 'Formula correct' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Good. Describe isovolumetric contraction.', isFollowUp: false, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'frank_starling', status: 'strong', evidence: 'Linked stretch to force' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Correct. Anything you want to revisit?', isFollowUp: false, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'cardiac_cycle', status: 'strong', evidence: 'Complete description' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'report', error: { message: 'Invalid request', status: 400 } }
+  ]
+};
+
+// Three-question session: escalation follows answers, not the clock, and a weak topic
+// after the third answer earns one overtime question before the model wraps up. Every
+// answer carries a rubric grade, some with near-miss scores and concept names to coerce,
+// and a confidence rating: the wrong preload answer was rated fairly sure, so Frank-Starling
+// leads the (fallback) revisit list despite ending strong.
+export const QUESTION_COUNT_FIXTURE: SessionFixture = {
+  name: 'question-count-overtime',
+  notes: CARDIAC_NOTES,
+  duration: 0,
+  pacing: { kind: 'questions', count: 3 },
+  answers: [
+    { text: 'CO is SV times HR.', elapsedSeconds: 60, confidence: 4 },
+    { text: 'Preload is... the pressure in the aorta?', elapsedSeconds: 60, confidence: 3 },
+    { text: 'AV valves close, all valves shut, volume constant, pressure climbs.', elapsedSeconds: 60, confidence: 1 },
+    { text: 'Preload is end-diastolic stretch; more stretch, more force.', elapsedSeconds: 60, confidence: 3 }
+  ],
+  script: [
+    { tag: 'extractTopics', response: CARDIAC_TOPICS },
+    { tag: 'sessionTurn', response: { message: "Alright, let's see what you've got. What's cardiac output?", isFollowUp: false, currentTopicId: 'cardiac_output', sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Nice. What is preload?', isFollowUp: false, currentTopicId: 'frank_starling', topicUpdate: { topicId: 'cardiac_output', status: 'strong', evidence: 'Formula correct' }, grade: { topicId: 'cardiac_output', accuracy: 2, completeness: 2, reasoning: 1, concepts: [{ concept: 'CO = SV × HR', score: 2 }, { concept: 'Stroke Volume', score: '2' }], misconceptions: [] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Not quite — that is afterload. Describe isovolumetric contraction.', isFollowUp: false, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'frank_starling', status: 'weak', evidence: 'Confused preload with afterload' }, grade: { accuracy: 0, completeness: 0, reasoning: 0, concepts: [{ concept: 'preload', score: 0 }, { concept: 'afterload', score: 0 }], misconceptions: ['Preload is the pressure in the aorta'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Correct. Back to preload: what is it really?', isFollowUp: false, currentTopicId: 'frank_starling', topicUpdate: { topicId: 'cardiac_cycle', status: 'strong', evidence: 'Complete description' }, grade: { topicId: 'cardiac_cycle', accuracy: 2, completeness: 1, reasoning: 2, concepts: [{ concept: 'isovolumetric contraction', score: 2 }, { concept: 'systole', score: 3 }], misconceptions: [] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: "That's it. We're done.", isFollowUp: false, currentTopicId: 'frank_starling', topicUpdate: { topicId: 'frank_starling', status: 'strong', evidence: 'Corrected to end-diastolic stretch' }, grade: { topicId: 'frank_starling', accuracy: 2, completeness: 2, reasoning: 2, concepts: [{ concept: 'preload', score: 2 }], misconceptions: [] }, sessionShouldEnd: true, overtimeNeeded: false } },
+    { tag: 'report', error: { message: 'Invalid request', status: 400 } }
+  ]
+};
+
+// Untimed session with two misconceptions. The first is explained as it is flagged,
+// re-checked and resolved. The second turns up while the first is being corrected, so it
+// waits; it is explained after the first one's verdict (where it is restated, and not
+// added again), and the answers run out before its re-check, so it ends unresolved.
+export const MISCONCEPTION_FIXTURE: SessionFixture = {
+  name: 'misconception-remediation',
+  notes: CARDIAC_NOTES,
+  duration: 0,
+  pacing: { kind: 'untimed' },
+  answers: [
+    { text: 'The semilunar valves open first when systole starts.', elapsedSeconds: 60 },
+    { text: 'If they opened first, blood would leave before pressure built. The atria contract then too, pushing it out.', elapsedSeconds: 90 },
+    { text: 'All four valves are shut, so the volume stays the same while pressure climbs.', elapsedSeconds: 90 },
+    { text: 'During ventricular systole, to push the blood along.', elapsedSeconds: 60 }
+  ],
+  script: [
+    { tag: 'extractTopics', response: CARDIAC_TOPICS },
+    { tag: 'sessionTurn', response: { message: 'Cool, let\'s dig in. Which valves move first in systole?', isFollowUp: false, currentTopicId: 'cardiac_cycle', sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Not quite: the AV valves close first, and the semilunar valves only open once ventricular pressure beats arterial pressure. What would each order mean for ventricular volume?', isFollowUp: true, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'cardiac_cycle', status: 'revisit', evidence: 'Believed semilunar valves open first' }, grade: { topicId: 'cardiac_cycle', accuracy: 0, completeness: 1, reasoning: 0, concepts: [{ concept: 'systole', score: 0 }], misconceptions: ['The semilunar valves open first in systole'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Good contrast. So what are the valves doing during isovolumetric contraction?', isFollowUp: true, currentTopicId: 'cardiac_cycle', grade: { topicId: 'cardiac_cycle', accuracy: 1, completeness: 1, reasoning: 2, concepts: [{ concept: 'systole', score: 2 }], misconceptions: ['The atria contract during ventricular systole'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Exactly, that one\'s fixed. Now, when in the cycle do the atria contract?', isFollowUp: true, currentTopicId: 'cardiac_cycle', misconceptionResolved: true, topicUpdate: { topicId: 'cardiac_cycle', status: 'weak', evidence: 'Valve order corrected; atrial timing still wrong' }, grade: { topicId: 'cardiac_cycle', accuracy: 2, completeness: 2, reasoning: 2, concepts: [{ concept: 'isovolumetric contraction', score: 2 }], misconceptions: [] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Not during ventricular systole: the atria contract at the end of diastole and relax as the ventricles contract. What would each timing mean for ventricular filling?', isFollowUp: true, currentTopicId: 'cardiac_cycle', grade: { topicId: 'cardiac_cycle', accuracy: 0, completeness: 0, reasoning: 1, concepts: [{ concept: 'diastole', score: 0 }], misconceptions: ['The atria contract during ventricular systole.'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'report', error: { message: 'Invalid request', status: 400 } }
+  ]
+};
+
+// One of each format: closed answers are graded locally (a letter key, a typo in the blank,
+// a half-right ordering), and a multiple-choice question with one option falls back to open
+export const QUESTION_FORMATS_FIXTURE: SessionFixture = {
+  name: 'question-formats',
+  notes: CARDIAC_NOTES,
+  duration: 0,
+  pacing: { kind: 'untimed' },
+  answers: [
+    { text: '', elapsedSeconds: 30, confidence: 4, closed: { kind: 'mcq', index: 1 } },
+    { text: '', elapsedSeconds: 45, confidence: 3, closed: { kind: 'true_false', value: true, justification: 'More stretch always means more force.' } },
+    { text: '', elapsedSeconds: 30, confidence: 2, closed: { kind: 'fill_blank', text: 'isovolumetric contracton' } },
+    { text: '', elapsedSeconds: 40, confidence: 3, closed: { kind: 'ordering', order: ['AV valves close', 'Semilunar valves open', 'Isovolumetric contraction', 'Ejection'] } },
+    { text: 'Stretch rises along the x-axis and force climbs with it, then levels off past the optimal sarcomere length.', elapsedSeconds: 70, confidence: 3 },
+    { text: 'Heart rate goes up and so does stroke volume, so cardiac output rises.', elapsedSeconds: 60, confidence: 4 }
+  ],
+  script: [
+    { tag: 'extractTopics', response: CARDIAC_TOPICS },
+    { tag: 'sessionTurn', response: { message: 'Quick warm-up. Which gives cardiac output?', isFollowUp: false, currentTopicId: 'cardiac_output', questionType: 'mcq', question: { concept: 'CO = SV × HR', options: ['SV + HR', 'SV × HR', 'HR ÷ SV', 'SV − HR'], answer: 'B' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Right. True or false: past the optimal length, more stretch still means more force?', isFollowUp: false, currentTopicId: 'frank_starling', questionType: 'true/false', question: { concept: 'sarcomere length', answer: 'false' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Not past the optimum: overlap falls off and so does force. Fill in the blank: systole begins with ____.', isFollowUp: false, currentTopicId: 'cardiac_cycle', topicUpdate: { topicId: 'frank_starling', status: 'weak', evidence: 'Thought force keeps rising with stretch' }, grade: { topicId: 'frank_starling', accuracy: 2, completeness: 1, reasoning: 1, concepts: [{ concept: 'sarcomere length', score: 1 }], misconceptions: [] }, questionType: 'fill_blank', question: { concept: 'isovolumetric contraction', answer: ['isovolumetric contraction', 'isovolumic contraction'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Yes. Now put the start of systole in order.', isFollowUp: true, currentTopicId: 'cardiac_cycle', questionType: 'ordering', question: { concept: 'systole', options: ['AV valves close', 'Isovolumetric contraction', 'Semilunar valves open', 'Ejection'] }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Close: the valves stay shut through isovolumetric contraction. Back to Frank-Starling: explain this curve.', isFollowUp: false, currentTopicId: 'frank_starling', topicUpdate: { topicId: 'cardiac_cycle', status: 'weak', evidence: 'Put semilunar opening before isovolumetric contraction' }, questionType: 'diagram', question: { concept: 'sarcomere length', diagram: 'force\n  |      ___\n  |    /    \\\n  |  /\n  |/__________ stretch' }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Good reading of the plateau. Last one: what happens to cardiac output in exercise?', isFollowUp: false, currentTopicId: 'cardiac_output', topicUpdate: { topicId: 'frank_starling', status: 'strong', evidence: 'Explained the length-tension plateau' }, grade: { topicId: 'frank_starling', accuracy: 2, completeness: 2, reasoning: 2, concepts: [{ concept: 'sarcomere length', score: 2 }], misconceptions: [] }, questionType: 'mcq', question: { options: ['It rises'], answer: 0 }, sessionShouldEnd: false, overtimeNeeded: false } },
+    { tag: 'sessionTurn', response: { message: 'Exactly. That covers it.', isFollowUp: false, currentTopicId: 'cardiac_output', topicUpdate: { topicId: 'cardiac_output', status: 'strong', evidence: 'Applied CO = SV × HR to exercise' }, grade: { topicId: 'cardiac_output', accuracy: 2, completeness: 2, reasoning: 2, concepts: [{ concept: 'CO = SV × HR', score: 2 }], misconceptions: [] }, sessionShouldEnd: true, overtimeNeeded: false } },
+    { tag: 'report', error: { message: 'Invalid request', status: 400 } }
+  ]
+};
+
+export const SESSION_FIXTURES: SessionFixture[] = [CARDIAC_SESSION_FIXTURE, STRONG_TIME_UP_FIXTURE, QUESTION_COUNT_FIXTURE, MISCONCEPTION_FIXTURE, QUESTION_FORMATS_FIXTURE];
+
+// Endless script for running the app with VITE_LLM_PROVIDER=mock (offline demos, UI work).
+export const DEMO_MOCK_SCRIPT: MockStep[] = [
+  { tag: 'vision', response: CARDIAC_NOTES, repeat: true },
+  { tag: 'extractTopics', response: CARDIAC_TOPICS, repeat: true },
+  { tag: 'sessionTurn', response: { message: 'Go on — explain that in your own words.', isFollowUp: true, currentTopicId: 'cardiac_output', sessionShouldEnd: false, overtimeNeeded: false }, repeat: true },
+  { tag: 'report', response: CARDIAC_REPORT, repeat: true },
+  { tag: 'personality', response: { rawDescription: 'Relaxed and upbeat.', phrases: ['no way', 'nice one'], emojiUsage: 'rare', humor: 'Dry', encouragement: 'nice one', corrections: 'hmm not quite' }, repeat: true }
+];
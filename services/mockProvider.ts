@@ -0,0 +1,74 @@
+import type { LLMImage, LLMProvider, LLMRequest, LLMRequestTag } from "./llmProvider";
+
+// Deterministic stand-in for a real model. Replays scripted responses in order so a whole
+// audit session can run with no network — including malformed and truncated outputs.
+
+export interface MockStep {
+  // Only consumed by requests with this tag; untagged steps match anything.
+  tag?: LLMRequestTag;
+  // Raw text is replayed verbatim (use it for broken JSON); objects are JSON.stringified.
+  response?: string | object;
+  // Throw instead of responding. `status` mirrors what retryWithBackoff checks.
+  error?: { message: string; status?: number };
+  // Keep this step in the script after it is used (e.g. a generic fallback turn).
+  repeat?: boolean;
+}
+
+export interface MockCall {
+  tag: LLMRequestTag | undefined;
+  request: LLMRequest | null;
+  response: string | null;
+}
+
+export interface MockProvider extends LLMProvider {
+  readonly calls: MockCall[];
+  remaining(): MockStep[];
+}
+
+// Stream output in small pieces so consumers see the same chunking they would with a real model
+const CHUNK_SIZE = 16;
+
+export function createMockProvider(script: MockStep[]): MockProvider {
+  const queue = [...script];
+  const calls: MockCall[] = [];
+
+  function next(tag: LLMRequestTag | undefined, request: LLMRequest | null): string {
+    const idx = queue.findIndex(step => !step.tag || step.tag === tag);
+    if (idx === -1) {
+      calls.push({ tag, request, response: null });
+      throw new Error(`Mock script exhausted (no step for "${tag ?? 'untagged'}")`);
+    }
+    const step = queue[idx];
+    if (!step.repeat) queue.splice(idx, 1);
+
+    if (step.error) {
+      calls.push({ tag, request, response: null });
+      const err: any = new Error(step.error.message);
+      if (step.error.status) err.status = step.error.status;
+      throw err;
+    }
+    const text = typeof step.response === 'string' ? step.response : JSON.stringify(step.response ?? '');
+    calls.push({ tag, request, response: text });
+    return text;
+  }
+
+  async function* stream(req: LLMRequest): AsyncGenerator<string> {
+    const text = next(req.tag, req);
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      yield text.slice(i, i + CHUNK_SIZE);
+    }
+  }
+
+  return {
+    name: 'mock',
+    calls,
+    remaining: () => [...queue],
+    stream,
+    async generate(req: LLMRequest) {
+      return next(req.tag, req);
+    },
+    async vision(_images: LLMImage[], prompt: string) {
+      return next('vision', { tag: 'vision', messages: [{ role: 'user', text: prompt }] });
+    }
+  };
+}
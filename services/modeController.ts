@@ -0,0 +1,65 @@
+import { CheckSession, QAMessage, SessionMode } from "../types";
+import { answeredCount, sessionPacing, sessionProgress } from "./sessionEngine";
+import { activeMisconception } from "./misconceptions";
+
+// Picks the examiner's mode from how the student is doing, not just how far the session
+// has run. Session pace sets the baseline (Friend → Tutor → Instructor → Examiner at
+// 25/50/75%); a run of strong answers moves ahead of it, and a shaky answer on the topic
+// in play, or a misconception being corrected, holds the session at Tutor.
+
+export const MODES: SessionMode[] = ['friend', 'tutor', 'instructor', 'examiner'];
+
+export interface ModeDecision {
+  mode: SessionMode;
+  // Short, student-facing: shown next to the mode badge and passed to the model
+  reason: string;
+}
+
+// Consecutive strong ratings needed for each step ahead of the pace
+const STREAK_PER_STEP = 2;
+const MAX_STEPS_AHEAD = 2;
+
+type Rating = NonNullable<QAMessage['rating']>;
+
+const shaky = (r?: Rating) => !!r && r.status !== 'strong';
+
+function paceReason(session: CheckSession, elapsedSeconds: number, progress: number): string {
+  const pacing = sessionPacing(session);
+  if (progress === 0) return 'Warming up';
+  if (pacing.kind === 'questions') return `${answeredCount(session)} of ${pacing.count} questions answered`;
+  if (pacing.kind === 'untimed') return `${Object.keys(session.topicPerformances).length} of ${session.topics.length} topics assessed`;
+  return `${Math.round(progress * 100)}% of the time used`;
+}
+
+export function chooseMode(session: CheckSession, elapsedSeconds: number): ModeDecision {
+  if (session.isOvertimeActive) return { mode: 'examiner', reason: 'Overtime — pinning down the weak spots' };
+
+  const correcting = activeMisconception(session);
+  if (correcting) {
+    const topic = session.topics.find(t => t.id === correcting.topicId);
+    return { mode: 'tutor', reason: `Correcting a misconception${topic ? ` on ${topic.name}` : ''}` };
+  }
+
+  const progress = sessionProgress(session, elapsedSeconds);
+  const paced = Math.min(MODES.length - 1, Math.floor(progress * MODES.length));
+  const ratings = session.messages.map(m => m.rating).filter((r): r is Rating => !!r);
+  const currentId = [...session.messages].reverse().find(m => m.role === 'ai' && m.topicId)?.topicId;
+  const current = session.topics.find(t => t.id === currentId);
+  const onTopic = ratings.filter(r => r.topicId === currentId);
+
+  // Struggling, per topic: the latest rating on the topic in play was weak or revisit
+  if (current && shaky(onTopic[onTopic.length - 1])) {
+    return { mode: 'tutor', reason: `Holding at Tutor while ${current.name} is shaky` };
+  }
+  // Struggling across topics: the last two answers both fell short
+  if (ratings.length >= 2 && ratings.slice(-2).every(r => shaky(r))) {
+    return { mode: 'tutor', reason: 'Holding at Tutor after two shaky answers' };
+  }
+
+  let streak = 0;
+  for (let i = ratings.length - 1; i >= 0 && ratings[i].status === 'strong'; i--) streak++;
+  const ahead = Math.min(MAX_STEPS_AHEAD, Math.floor(streak / STREAK_PER_STEP));
+  const mode = MODES[Math.min(MODES.length - 1, paced + ahead)];
+  if (mode !== MODES[paced]) return { mode, reason: `Moving up: ${streak} strong answers in a row` };
+  return { mode, reason: paceReason(session, elapsedSeconds, progress) };
+}
@@ -0,0 +1,20 @@
+// Services can't reach App's error log directly, so they publish here and App subscribes.
+
+export interface ModelTelemetryEvent {
+  context: string;
+  message: string;
+}
+
+type Listener = (event: ModelTelemetryEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export function onModelTelemetry(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function reportModelIssue(context: string, message: string) {
+  console.warn(`[${context}]`, message);
+  listeners.forEach(l => l({ context, message }));
+}
@@ -0,0 +1,99 @@
+import { ExtractedTopic } from "../types";
+import { IngestedNotes, NoteBlock, sectionMarkers, snapNoteSection } from "./noteSections";
+
+// Several uploads (a lecture PDF, photos of handwritten notes, slides) merged into one set
+// of notes for a single audit. Every section marker is prefixed with its file name, so
+// a topic's noteSection names the file it came from; repeated paragraphs — the same
+// slide deck uploaded twice, handouts copied into notes — are kept only once.
+
+export interface SourceNotes {
+  name: string;
+  notes: IngestedNotes;
+}
+
+// Separates the file name from the section inside it in a marker
+export const SOURCE_SEPARATOR = ' › ';
+
+// Shorter paragraphs ("Summary", "- yes") repeat legitimately and aren't worth deduplicating
+const MIN_DEDUP_CHARS = 24;
+
+const fingerprint = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+export interface MergedCorpus {
+  notes: IngestedNotes;
+  duplicateParagraphs: number;
+}
+
+// A single source passes through untouched, so its noteSetId matches a plain upload
+export function mergeSources(sources: SourceNotes[]): MergedCorpus {
+  if (sources.length === 1) return { notes: sources[0].notes, duplicateParagraphs: 0 };
+
+  const seen = new Set<string>();
+  let duplicateParagraphs = 0;
+  const blocks: NoteBlock[] = [];
+  for (const { name, notes } of sources) {
+    for (const block of notes.blocks) {
+      const paragraphs = block.text.split(/\n{2,}/).filter(p => {
+        const key = fingerprint(p);
+        if (key.length < MIN_DEDUP_CHARS) return true;
+        if (seen.has(key)) { duplicateParagraphs++; return false; }
+        seen.add(key);
+        return true;
+      });
+      if (!paragraphs.join('').trim()) continue;
+      blocks.push({ ...block, section: block.section ? `${name}${SOURCE_SEPARATOR}${block.section}` : name, text: paragraphs.join('\n\n') });
+    }
+  }
+  const title = sources.map(s => s.notes.title).find(Boolean);
+  return { notes: { format: 'corpus', title, blocks }, duplicateParagraphs };
+}
+
+// Two files with the same name (photos named image.jpg) still need distinct labels
+export function sourceLabels(fileNames: string[]): string[] {
+  const used = new Map<string, number>();
+  return fileNames.map(name => {
+    const n = (used.get(name) || 0) + 1;
+    used.set(name, n);
+    return n === 1 ? name : `${name} (${n})`;
+  });
+}
+
+// The file a section marker belongs to, if it was written by mergeSources()
+export function sourceOfSection(section: string | undefined, sourceNames: string[]): string | undefined {
+  if (!section) return undefined;
+  return sourceNames.find(name => section === name || section.startsWith(name + SOURCE_SEPARATOR));
+}
+
+// Text under each source's markers, in upload order
+function textBySource(noteContent: string, sourceNames: string[]): Map<string, string> {
+  const bySource = new Map<string, string>();
+  let current: string | undefined;
+  for (const line of noteContent.split('\n')) {
+    const marker = sectionMarkers(line)[0];
+    if (marker !== undefined) { current = sourceOfSection(marker, sourceNames); continue; }
+    if (current) bySource.set(current, (bySource.get(current) || '') + line.toLowerCase() + '\n');
+  }
+  return bySource;
+}
+
+// Where a topic is covered: the file its noteSection cites, plus any other file that
+// mentions at least half of its concepts
+export function topicSources(topic: ExtractedTopic, noteContent: string, sourceNames: string[]): string[] {
+  const cited = sourceOfSection(snapNoteSection(topic.noteSection, sectionMarkers(noteContent)), sourceNames);
+  const texts = textBySource(noteContent, sourceNames);
+  const concepts = topic.concepts.map(c => c.toLowerCase().trim()).filter(c => c.length > 2);
+  const mentioned = sourceNames.filter(name => {
+    const text = texts.get(name) || '';
+    return concepts.length > 0 && concepts.filter(c => text.includes(c)).length >= Math.ceil(concepts.length / 2);
+  });
+  return sourceNames.filter(name => name === cited || mentioned.includes(name));
+}
+
+// Tag every topic with its sources; single-file uploads need no tags
+export function tagTopicSources(topics: ExtractedTopic[], noteContent: string, sourceNames: string[]): ExtractedTopic[] {
+  if (sourceNames.length < 2) return topics;
+  return topics.map(t => {
+    const sources = topicSources(t, noteContent, sourceNames);
+    return sources.length ? { ...t, sources } : t;
+  });
+}
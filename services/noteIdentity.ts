@@ -0,0 +1,83 @@
+import { ExtractedTopic } from "../types";
+import { slugify } from "./responseSchemas";
+import { remapPrerequisites } from "./topicGraph";
+
+// Stable identities across uploads. A note set is identified by a hash of its text, so the
+// same notes uploaded twice (or from another device) land in the same history. Topics are
+// re-extracted on every upload with whatever ids the model picks; matchTopic() maps them
+// back onto topics already seen for that note set.
+
+// cyrb53 — fast, well-distributed, synchronous; collisions only need to be rare, not impossible
+function cyrb53(str: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Whitespace and case differences (re-exports, OCR line breaks) don't change the identity
+export function noteSetIdFor(noteContent: string): string {
+  return `notes_${cyrb53(noteContent.toLowerCase().replace(/\s+/g, ' ').trim())}`;
+}
+
+export interface TopicLike {
+  id: string;
+  name: string;
+  concepts: string[];
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'of', 'in', 'to', 'a', 'an', 'for', 'on', 'with', 'vs', 'its']);
+
+function tokens(topic: Pick<TopicLike, 'name' | 'concepts'>): Set<string> {
+  return new Set([topic.name, ...topic.concepts].flatMap(s => slugify(s).split('_')).filter(w => w.length > 1 && !STOP_WORDS.has(w)));
+}
+
+// Jaccard overlap of the words in the name and concepts
+export function topicSimilarity(a: Pick<TopicLike, 'name' | 'concepts'>, b: Pick<TopicLike, 'name' | 'concepts'>): number {
+  const ta = tokens(a), tb = tokens(b);
+  if (!ta.size || !tb.size) return 0;
+  let shared = 0;
+  ta.forEach(w => { if (tb.has(w)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+}
+
+const MATCH_THRESHOLD = 0.4;
+
+// Same id, then same name, then the most similar topic above the threshold
+export function matchTopic<T extends TopicLike>(candidate: TopicLike, known: T[]): T | null {
+  const byId = known.find(k => k.id === candidate.id);
+  if (byId) return byId;
+  const name = slugify(candidate.name);
+  const byName = known.find(k => slugify(k.name) === name);
+  if (byName) return byName;
+  let best: T | null = null, bestScore = MATCH_THRESHOLD;
+  for (const k of known) {
+    const score = topicSimilarity(candidate, k);
+    if (score >= bestScore) { best = k; bestScore = score; }
+  }
+  return best;
+}
+
+// Give freshly extracted topics the ids they had in earlier sessions on the same notes.
+// Each known topic is claimed at most once, so two new topics never collapse into one id.
+export function alignExtractedTopics(topics: ExtractedTopic[], known: TopicLike[]): ExtractedTopic[] {
+  const unclaimed = [...known];
+  const used = new Set<string>();
+  const idMap = new Map<string, string>();
+  const aligned = topics.map(t => {
+    const match = matchTopic(t, unclaimed);
+    if (match) unclaimed.splice(unclaimed.indexOf(match), 1);
+    let id = match?.id ?? t.id;
+    while (used.has(id)) id = `${id}_2`;
+    used.add(id);
+    idMap.set(t.id, id);
+    return id === t.id ? t : { ...t, id };
+  });
+  // Prerequisites point at the new ids too
+  return remapPrerequisites(aligned, idMap);
+}
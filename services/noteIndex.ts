@@ -0,0 +1,167 @@
+import { CheckSession, ExtractedTopic } from "../types";
+import { sectionMarkers } from "./noteSections";
+import { foundationsFirst } from "./topicGraph";
+
+// Local retrieval over the notes, so every turn is grounded in the passages about the
+// topic being audited rather than the first few pages. Notes are cut into short passages
+// (never across a section marker) and ranked with BM25; nothing leaves the browser.
+
+export interface NotePassage {
+  // Short id the model cites in evidence, e.g. "P12"
+  id: string;
+  section?: string;
+  text: string;
+}
+
+export interface NoteIndex {
+  passages: NotePassage[];
+  search(query: string, limit?: number): NotePassage[];
+}
+
+const PASSAGE_CHARS = 700;
+// Total passage text injected per turn; about what the old fixed excerpt used
+export const RETRIEVAL_BUDGET_CHARS = 3000;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'of', 'in', 'to', 'a', 'an', 'for', 'on', 'with', 'is', 'are', 'was', 'were', 'be', 'by', 'as', 'at',
+  'it', 'its', 'this', 'that', 'these', 'those', 'or', 'from', 'which', 'what', 'how', 'why', 'can', 'has', 'have',
+  'not', 'but', 'so', 'if', 'then', 'than', 'into', 'their', 'there', 'they', 'you', 'your', 'i', 'we', 'do', 'does'
+]);
+
+// A crude plural/suffix strip is enough to match "enzymes" to "enzyme", "energies" to "energy"
+function stem(w: string): string {
+  if (w.length <= 4 || /(ss|us|is)$/.test(w)) return w;
+  if (w.endsWith('ies')) return w.slice(0, -3) + 'y';
+  if (/(ch|sh|x|ss)es$/.test(w)) return w.slice(0, -2);
+  if (w.endsWith('s')) return w.slice(0, -1);
+  if (w.endsWith('ing') && w.length > 5) return w.slice(0, -3);
+  if (w.endsWith('ed')) return w.slice(0, -2);
+  return w;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+    .map(stem);
+}
+
+function passagesOf(noteContent: string): NotePassage[] {
+  const passages: NotePassage[] = [];
+  let section: string | undefined;
+  let current = '';
+  const flush = () => {
+    if (current.trim()) passages.push({ id: `P${passages.length + 1}`, section, text: current.trim() });
+    current = '';
+  };
+  for (const paragraph of noteContent.split(/\n{2,}/)) {
+    const lines = paragraph.split('\n');
+    // A marker starts a new section (and passage); the rest of its paragraph is body text
+    const marker = sectionMarkers(lines[0])[0];
+    if (marker !== undefined) { flush(); section = marker; lines.shift(); }
+    const body = lines.join('\n').trim();
+    if (!body) continue;
+    if (current && current.length + body.length > PASSAGE_CHARS) flush();
+    // Very long paragraphs are split at sentence ends
+    const sentences = body.length > PASSAGE_CHARS ? body.match(/[^.!?]+[.!?]*\s*/g) || [body] : [body];
+    for (const s of sentences) {
+      if (current && current.length + s.length > PASSAGE_CHARS) flush();
+      current += (current && !current.endsWith(' ') ? '\n' : '') + s;
+    }
+  }
+  flush();
+  return passages;
+}
+
+export function buildNoteIndex(noteContent: string): NoteIndex {
+  const passages = passagesOf(noteContent);
+  const docs = passages.map(p => {
+    const tf = new Map<string, number>();
+    // The section label counts as part of the passage, so headings help matching
+    tokenize(`${p.section || ''} ${p.text}`).forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+    let length = 0;
+    tf.forEach(n => { length += n; });
+    return { tf, length };
+  });
+  const df = new Map<string, number>();
+  docs.forEach(d => d.tf.forEach((_, t) => df.set(t, (df.get(t) || 0) + 1)));
+  const avgLength = docs.reduce((n, d) => n + d.length, 0) / (docs.length || 1);
+  const idf = (t: string) => {
+    const n = df.get(t) || 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    passages,
+    search(query, limit = 5) {
+      const terms = [...new Set(tokenize(query))];
+      if (!terms.length) return [];
+      return docs
+        .map((d, i) => {
+          let score = 0;
+          for (const t of terms) {
+            const f = d.tf.get(t);
+            if (!f) continue;
+            score += idf(t) * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * d.length / avgLength));
+          }
+          return { passage: passages[i], score };
+        })
+        .filter(r => r.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(r => r.passage);
+    }
+  };
+}
+
+// Building the index is cheap but not free; sessions re-use the one for their notes
+let cached: { noteContent: string; index: NoteIndex } | null = null;
+
+export function noteIndexFor(noteContent: string): NoteIndex {
+  if (cached?.noteContent !== noteContent) cached = { noteContent, index: buildNoteIndex(noteContent) };
+  return cached.index;
+}
+
+function topicQuery(topic: ExtractedTopic): string {
+  return [topic.name, ...topic.concepts, topic.noteSection || ''].join(' ');
+}
+
+// Passages for this turn: the topic under discussion (matched against the latest exchange
+// too, so the student's answer can be checked), then the next untested topic so a new
+// question can be grounded. Passages under the topic's own section come first.
+export function retrievePassages(session: CheckSession, userMessage: string | null, budget = RETRIEVAL_BUDGET_CHARS): NotePassage[] {
+  const index = noteIndexFor(session.noteContent);
+  const currentId = [...session.messages].reverse().find(m => m.role === 'ai' && m.topicId)?.topicId;
+  const current = session.topics.find(t => t.id === currentId);
+  const next = foundationsFirst(session.topics).find(t => t.id !== currentId && !session.topicPerformances[t.id]);
+  const lastQuestion = [...session.messages].reverse().find(m => m.role === 'ai')?.content || '';
+
+  const candidates: NotePassage[] = [];
+  const add = (list: NotePassage[]) => list.forEach(p => { if (!candidates.includes(p)) candidates.push(p); });
+  for (const topic of [current, next]) {
+    if (!topic) continue;
+    add(index.passages.filter(p => topic.noteSection && p.section === topic.noteSection).slice(0, 2));
+    add(index.search(topic === current ? `${topicQuery(topic)} ${lastQuestion} ${userMessage || ''}` : topicQuery(topic), 4));
+  }
+  // Opening turn, or nothing matched: the start of the notes, as before
+  if (!candidates.length) add(index.passages.slice(0, 4));
+
+  const picked: NotePassage[] = [];
+  let used = 0;
+  for (const p of candidates) {
+    if (used + p.text.length > budget && picked.length) continue;
+    picked.push(p);
+    used += p.text.length;
+  }
+  return picked;
+}
+
+// Swap passage ids in model text for the section they came from: "[P12]" → "[p. 12, Heading]"
+export function citePassages(text: string, passages: NotePassage[]): string {
+  return text.replace(/\[(P\d+)\]/g, (_, id) => {
+    const passage = passages.find(p => p.id === id);
+    return passage ? (passage.section ? `[${passage.section}]` : '') : '';
+  }).replace(/\s{2,}/g, ' ').trim();
+}
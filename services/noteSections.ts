@@ -0,0 +1,55 @@
+// Section labels shared by every ingestion format. Notes are rendered with each block's
+// label on its own [[marker]] line; the topic extractor is asked to copy markers verbatim
+// into noteSection, and snapNoteSection() maps paraphrases back onto the exact marker.
+
+export interface NoteBlock {
+  section: string;
+  // Heading depth for formats that have one (1 = top level); 0 when not applicable
+  level: number;
+  text: string;
+  page?: number;
+  // Heading text alone, for formats whose section label carries more (e.g. "p. 12, Heading")
+  heading?: string;
+}
+
+export interface IngestedNotes {
+  format: string;
+  title?: string;
+  blocks: NoteBlock[];
+}
+
+const MARKER_LINE = /^\[\[(.+)\]\]$/;
+
+export function renderNotes(notes: IngestedNotes): string {
+  return notes.blocks
+    .map(b => (b.section ? `[[${b.section}]]\n` : '') + b.text)
+    .join('\n\n')
+    .trim();
+}
+
+export function sectionMarkers(noteContent: string): string[] {
+  return noteContent.split('\n').map(l => l.trim().match(MARKER_LINE)?.[1]).filter((m): m is string => !!m);
+}
+
+// Map the model's noteSection onto the exact marker it paraphrased, if any
+export function snapNoteSection(section: string | undefined, markers: string[]): string | undefined {
+  if (!section || !markers.length) return section;
+  // "Page 12 – X" and "p.12, X" both normalise to "p 12 x"
+  const norm = (s: string) => s.toLowerCase().replace(/^\[\[|\]\]$/g, '').replace(/\bpage\s*(?=\d)/g, 'p ').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const target = norm(section);
+  if (target.length < 3) return section;
+  return markers.find(m => norm(m) === target)
+    ?? markers.find(m => norm(m).endsWith(target) || target.endsWith(norm(m)))
+    ?? markers.find(m => norm(m).includes(target))
+    ?? section;
+}
+
+// For model-cited sections in reports: an exact marker when the citation can be matched,
+// otherwise the topic's own section, so citations never drift from the notes
+export function citeNoteSection(raw: unknown, fallback: string | undefined, markers: string[]): string | undefined {
+  const given = typeof raw === 'string' && raw.trim() ? raw.trim() : undefined;
+  if (!given) return fallback;
+  if (!markers.length) return given;
+  const snapped = snapNoteSection(given, markers)!;
+  return markers.includes(snapped) ? snapped : fallback ?? given;
+}
@@ -0,0 +1,93 @@
+import { createWorker } from "tesseract.js";
+import { PdfPage, PdfTextItem } from "./pdfLayout";
+
+// Local OCR with tesseract.js, for scanned PDF pages and (optionally) photos of notes.
+// Recognition runs in tesseract's own web worker. The worker script, the wasm core and the
+// language data come from tesseract's CDN unless self-hosted (see createOcrSession), and
+// are cached by the browser. Lines come back in the same shape as pdfjs text items,
+// so OCR'd pages go through the same layout pass (headings, lists, columns) as digital PDFs.
+
+// 'vision' sends images to the LLM provider and falls back to local OCR if that fails;
+// 'local' never sends images off the device
+export type OcrEngine = 'vision' | 'local';
+
+export function readOcrEngine(): OcrEngine {
+  return import.meta.env.VITE_OCR_ENGINE === 'local' ? 'local' : 'vision';
+}
+
+export interface OcrJob {
+  number: number;
+  image: HTMLCanvasElement | Blob;
+  // Image pixels per PDF point; 1 for photos, where pixels are the only unit
+  scale?: number;
+  width?: number;
+  height?: number;
+}
+
+// Lines below this confidence are usually specks, rules or bleed-through from the reverse page
+const MIN_LINE_CONFIDENCE = 30;
+
+export interface OcrSession {
+  // onProgress reports how far through the image tesseract is (0–1)
+  recognize(job: OcrJob, onProgress?: (fraction: number) => void): Promise<PdfPage>;
+  close(): Promise<void>;
+}
+
+// One tesseract worker for a batch of pages; loading the language model is the slow part
+export async function createOcrSession(): Promise<OcrSession> {
+  let progress: ((fraction: number) => void) | undefined;
+  const env = import.meta.env;
+  // Self-hosted assets; each one left unset comes from tesseract's CDN, so OCR only works
+  // with no network when all three are set
+  const workerPath = env.VITE_OCR_WORKER_PATH; // worker.min.js from tesseract.js/dist
+  const corePath = env.VITE_OCR_CORE_PATH;     // directory holding the tesseract.js-core files
+  const langPath = env.VITE_OCR_LANG_PATH;     // directory holding *.traineddata.gz
+  const worker = await createWorker(env.VITE_OCR_LANGS || 'eng', 1, {
+    ...(workerPath ? { workerPath } : {}),
+    ...(corePath ? { corePath } : {}),
+    ...(langPath ? { langPath } : {}),
+    logger: m => { if (m.status === 'recognizing text') progress?.(m.progress); }
+  });
+  return {
+    async recognize(job, onProgress) {
+      progress = onProgress;
+      onProgress?.(0);
+      const { data } = await worker.recognize(job.image);
+      progress = undefined;
+      const scale = job.scale ?? 1;
+      const lines = (data.lines || []).filter(l => l.text.trim() && l.confidence >= MIN_LINE_CONFIDENCE);
+      // Image y grows downwards; flip it so lines sort like PDF user space
+      const height = job.height ?? Math.max(0, ...lines.map(l => l.bbox.y1)) / scale;
+      const items: PdfTextItem[] = lines.map(l => ({
+        str: l.text.trim(),
+        x: l.bbox.x0 / scale,
+        y: height - l.bbox.y1 / scale,
+        width: (l.bbox.x1 - l.bbox.x0) / scale,
+        fontSize: (l.rowAttributes?.row_height || l.bbox.y1 - l.bbox.y0) / scale,
+        bold: l.words.length > 0 && l.words.every(w => w.is_bold)
+      }));
+      // Photos have no page box; assume the right margin matches the left
+      const left = lines.length ? Math.min(...lines.map(l => l.bbox.x0)) : 0;
+      const width = job.width ?? (Math.max(0, ...lines.map(l => l.bbox.x1)) + left) / scale;
+      onProgress?.(1);
+      return { number: job.number, width, height, items };
+    },
+    async close() {
+      await worker.terminate();
+    }
+  };
+}
+
+// Recognise each image in order; onPage reports the job being read and its progress
+export async function ocrPages(jobs: OcrJob[], onPage?: (index: number, fraction: number) => void): Promise<PdfPage[]> {
+  const session = await createOcrSession();
+  try {
+    const pages: PdfPage[] = [];
+    for (const [index, job] of jobs.entries()) {
+      pages.push(await session.recognize(job, fraction => onPage?.(index, fraction)));
+    }
+    return pages;
+  } finally {
+    await session.close();
+  }
+}
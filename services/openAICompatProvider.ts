@@ -0,0 +1,79 @@
+import type { LLMConfig, LLMImage, LLMProvider, LLMRequest } from "./llmProvider";
+
+// Talks to any server exposing the OpenAI /chat/completions API — Ollama, llama.cpp server,
+// vLLM, LM Studio — so the app can run against a self-hosted model with no external network.
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+export function createOpenAICompatProvider(config: LLMConfig): LLMProvider {
+  async function* streamChat(model: string, messages: ChatMessage[], maxOutputTokens?: number): AsyncGenerator<string> {
+    const res = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, messages, stream: true, max_tokens: maxOutputTokens })
+    });
+
+    if (!res.ok || !res.body) {
+      const detail = await res.text().catch(() => '');
+      // Shape matches what retryWithBackoff inspects (err.status / err.message)
+      const err: any = new Error(`LLM server error ${res.status}: ${detail.slice(0, 200)}`);
+      err.status = res.status;
+      throw err;
+    }
+
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (!data || data === '[DONE]') continue;
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (typeof delta === 'string') yield delta;
+        } catch {
+          console.warn('[openAICompatProvider] Skipping unparseable SSE line:', data.slice(0, 100));
+        }
+      }
+    }
+  }
+
+  const toMessages = (req: LLMRequest): ChatMessage[] => [
+    ...(req.systemInstruction ? [{ role: 'system' as const, content: req.systemInstruction }] : []),
+    ...req.messages.map(m => ({ role: m.role === 'model' ? 'assistant' as const : 'user' as const, content: m.text }))
+  ];
+
+  const stream = (req: LLMRequest) => streamChat(config.model, toMessages(req), req.maxOutputTokens);
+
+  return {
+    name: 'openai-compatible',
+    stream,
+    async generate(req: LLMRequest) {
+      let text = '';
+      for await (const part of stream(req)) text += part;
+      return text;
+    },
+    async vision(images: LLMImage[], prompt: string, opts?: { maxOutputTokens?: number }) {
+      const content: ChatContent = [
+        ...images.map(img => ({ type: 'image_url' as const, image_url: { url: `data:${img.mimeType};base64,${img.data}` } })),
+        { type: 'text' as const, text: prompt }
+      ];
+      let text = '';
+      for await (const part of streamChat(config.visionModel, [{ role: 'user', content }], opts?.maxOutputTokens)) text += part;
+      return text;
+    }
+  };
+}
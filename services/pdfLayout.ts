@@ -0,0 +1,195 @@
+import { NoteBlock } from "./noteSections";
+
+// Recovers document structure from pdfjs text items. PDFs carry no headings or lists, only
+// positioned runs of text, so structure is inferred: items are grouped into lines by
+// baseline, lines ordered by column, running headers/footers dropped, and headings found
+// by font size relative to the body text. Each block records its page, and its section
+// reads "p. 12, Heading" so reports can cite the exact place.
+
+export interface PdfTextItem {
+  str: string;
+  // PDF user space: origin bottom-left, y grows upwards
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  bold?: boolean;
+}
+
+export interface PdfPage {
+  number: number;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+interface Line {
+  page: number;
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+const HEADING_RATIO = 1.15;
+const MAX_HEADING_CHARS = 120;
+const MAX_HEADING_LEVELS = 3;
+// Hyphen/asterisk bullets need a following space so "-5 °C" stays text
+const BULLET = /^([•◦▪▫‣∙●○■□]\s*|[–—*-]\s+)/;
+const NUMBERED = /^(\(?\d{1,3}[.)]|\(?[a-z][.)]|[ivx]{1,5}[.)])\s+/i;
+
+function round(n: number) {
+  return Math.round(n * 2) / 2;
+}
+
+// Items on the same baseline (within a fraction of the font size) form one line
+function pageLines(page: PdfPage): Line[] {
+  const items = page.items.filter(i => i.str.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+  for (const item of items) {
+    const row = rows.find(r => Math.abs(r[0].y - item.y) <= Math.max(2, r[0].fontSize * 0.4));
+    if (row) row.push(item); else rows.push([item]);
+  }
+  return rows.flatMap(row => {
+    row.sort((a, b) => a.x - b.x);
+    // A wide horizontal gap inside a row means two columns side by side, not one line
+    const segments: PdfTextItem[][] = [[row[0]]];
+    for (const item of row.slice(1)) {
+      const seg = segments[segments.length - 1];
+      const prev = seg[seg.length - 1];
+      if (item.x - (prev.x + prev.width) > prev.fontSize * 3) segments.push([item]); else seg.push(item);
+    }
+    return segments.map(seg => {
+      let text = '';
+      seg.forEach((item, i) => {
+        const prev = seg[i - 1];
+        const gap = prev ? item.x - (prev.x + prev.width) : 0;
+        const spaced = !prev || /\s$/.test(text) || /^\s/.test(item.str) || gap <= prev.fontSize * 0.2;
+        text += (spaced ? '' : ' ') + item.str;
+      });
+      const chars = seg.reduce((n, i) => n + i.str.length, 0) || 1;
+      const last = seg[seg.length - 1];
+      return {
+        page: page.number,
+        text: text.replace(/\s+/g, ' ').trim(),
+        x: seg[0].x,
+        right: last.x + last.width,
+        y: seg[0].y,
+        fontSize: round(seg.reduce((n, i) => n + i.fontSize * i.str.length, 0) / chars),
+        bold: seg.every(i => i.bold)
+      };
+    });
+  });
+}
+
+// Two-column pages read down the left column, then the right. Full-width lines (titles,
+// figures spanning both columns) stay where they are and split the page into bands.
+function readingOrder(lines: Line[], pageWidth: number): Line[] {
+  const mid = pageWidth / 2;
+  const left = lines.filter(l => l.right <= mid + 4);
+  const right = lines.filter(l => l.x >= mid - 4);
+  const twoColumn = left.length >= 3 && right.length >= 3 && left.length + right.length >= lines.length * 0.6;
+  if (!twoColumn) return lines;
+
+  const ordered: Line[] = [];
+  let band: Line[] = [];
+  const flush = () => {
+    ordered.push(...band.filter(l => l.right <= mid + 4), ...band.filter(l => l.right > mid + 4));
+    band = [];
+  };
+  for (const line of lines) {
+    const full = line.x < mid - 4 && line.right > mid + 4;
+    if (full) { flush(); ordered.push(line); } else band.push(line);
+  }
+  flush();
+  return ordered;
+}
+
+// Lines repeated on most pages (running titles, "Page 3 of 40") and bare page numbers
+function boilerplate(pages: Line[][]): (line: Line) => boolean {
+  const key = (l: Line) => l.text.toLowerCase().replace(/\d+/g, '#');
+  const counts = new Map<string, number>();
+  pages.forEach(lines => new Set(lines.map(key)).forEach(k => counts.set(k, (counts.get(k) || 0) + 1)));
+  const repeated = pages.length >= 3
+    ? new Set([...counts].filter(([, n]) => n >= pages.length / 2).map(([k]) => k))
+    : new Set<string>();
+  return l => /^(page\s*)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i.test(l.text) || repeated.has(key(l));
+}
+
+// The body font is the size carrying the most characters
+function bodySize(lines: Line[]): number {
+  const weight = new Map<number, number>();
+  lines.forEach(l => weight.set(l.fontSize, (weight.get(l.fontSize) || 0) + l.text.length));
+  let best = 0, size = 0;
+  weight.forEach((w, s) => { if (w > best) { best = w; size = s; } });
+  return size;
+}
+
+export function layoutPdf(pages: PdfPage[]): NoteBlock[] {
+  const perPage = pages.map(p => readingOrder(pageLines(p), p.width));
+  const isBoilerplate = boilerplate(perPage);
+  const lines = perPage.flatMap(ls => ls.filter(l => !isBoilerplate(l)));
+  if (!lines.length) return [];
+
+  const body = bodySize(lines);
+  const isHeading = (l: Line) =>
+    l.text.length <= MAX_HEADING_CHARS && !BULLET.test(l.text) &&
+    (l.fontSize >= body * HEADING_RATIO || (l.bold && l.fontSize >= body && l.text.length <= 80 && !/[.:;,]$/.test(l.text)));
+  // Larger sizes rank higher; bold body-size headings sit below every sized heading
+  const sizes = [...new Set(lines.filter(isHeading).map(l => l.fontSize))].sort((a, b) => b - a);
+  const levelOf = (l: Line) => Math.min(sizes.indexOf(l.fontSize) + 1, MAX_HEADING_LEVELS);
+
+  const blocks: NoteBlock[] = [];
+  let heading = '';
+  let level = 0;
+  // Declared with `as` so assignments inside close()/open() aren't narrowed away
+  let current = null as NoteBlock | null;
+  let prev: Line | null = null;
+
+  const label = (page: number) => heading ? `p. ${page}, ${heading}` : `p. ${page}`;
+  const close = () => {
+    if (current && current.text.trim()) blocks.push({ ...current, text: current.text.trim() });
+    current = null;
+  };
+  const open = (page: number) => {
+    current = { section: label(page), level, text: '', page, ...(heading ? { heading } : {}) };
+  };
+
+  for (const line of lines) {
+    if (isHeading(line)) {
+      // Multi-line headings: consecutive heading lines in the same style join up
+      const continues = prev && isHeading(prev) && prev.page === line.page && prev.fontSize === line.fontSize &&
+        prev.y - line.y <= line.fontSize * 1.6;
+      heading = continues ? `${heading} ${line.text}` : line.text;
+      level = levelOf(line);
+      close();
+      prev = line;
+      continue;
+    }
+
+    if (!current || current.page !== line.page) {
+      close();
+      open(line.page);
+    }
+    const block = current!;
+
+    const marker = line.text.match(BULLET) || line.text.match(NUMBERED);
+    const text = BULLET.test(line.text) ? `- ${line.text.replace(BULLET, '')}` : line.text;
+    const gap = prev && prev.page === line.page ? prev.y - line.y : 0;
+    // New paragraph on list items, vertical gaps, and a column jump (y moves back up)
+    const breaks = !block.text || marker || gap > line.fontSize * 1.6 || gap < 0;
+    if (breaks) {
+      block.text += (block.text ? (marker ? '\n' : '\n\n') : '') + text;
+    } else if (/\w-$/.test(block.text) && /^[a-z]/.test(text)) {
+      // Rejoin words hyphenated across a line break
+      block.text = block.text.slice(0, -1) + text;
+    } else {
+      block.text += ' ' + text;
+    }
+    prev = line;
+  }
+  close();
+  return blocks;
+}
@@ -0,0 +1,142 @@
+import { AnswerGrade, CheckSession, ClosedAnswer, QAMessage, QuestionSpec, QuestionType, RubricScore } from "../types";
+
+// Question formats beyond the open question. Closed answers (multiple choice, the true/false
+// verdict, fill-in-the-blank, ordering) are graded here against the answer key as soon as
+// they are sent; the examiner's next turn is told the result instead of judging it.
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  open: 'Open',
+  mcq: 'Multiple choice',
+  true_false: 'True or false',
+  fill_blank: 'Fill in the blank',
+  ordering: 'Put in order',
+  diagram: 'Explain the diagram'
+};
+
+export const CLOSED_TYPES: QuestionType[] = ['mcq', 'true_false', 'fill_blank', 'ordering'];
+
+export function isClosed(type: QuestionType | undefined): boolean {
+  return !!type && CLOSED_TYPES.includes(type);
+}
+
+export const optionLetter = (i: number) => String.fromCharCode(65 + i);
+
+// The question an answer would be answering: the last message, if it's the examiner's
+export function pendingQuestion(session: Pick<CheckSession, 'messages'>): QAMessage | undefined {
+  const last = session.messages[session.messages.length - 1];
+  return last?.role === 'ai' ? last : undefined;
+}
+
+// Ordering items as first shown: shuffled the same way every render (seeded by the message
+// id), and never already in the right order
+export function shuffledOrder(items: string[], seed: string): string[] {
+  let h = 0;
+  for (const ch of seed) h = (h * 31 + ch.charCodeAt(0)) | 0;
+  const keyed = items.map((item, i) => ({ item, key: Math.sin(h + i * 7919) }));
+  const shuffled = keyed.sort((a, b) => a.key - b.key).map(k => k.item);
+  return shuffled.every((x, i) => x === items[i]) && items.length > 1 ? [...items.slice(1), items[0]] : shuffled;
+}
+
+// The text that goes in the chat, and to the model, for a closed answer
+export function describeAnswer(answer: ClosedAnswer, spec: QuestionSpec | undefined): string {
+  switch (answer.kind) {
+    case 'mcq': return `${optionLetter(answer.index)}) ${spec?.options?.[answer.index] ?? ''}`.trim();
+    case 'true_false': return `${answer.value ? 'True' : 'False'} — ${answer.justification.trim()}`;
+    case 'fill_blank': return answer.text.trim();
+    case 'ordering': return answer.order.map((item, i) => `${i + 1}. ${item}`).join(' → ');
+  }
+}
+
+// The answer key in words, for the prompt and the feedback on the answer
+export function describeKey(type: QuestionType | undefined, spec: QuestionSpec | undefined): string {
+  if (!spec) return '';
+  if (type === 'mcq' && spec.answerIndex !== undefined) return `${optionLetter(spec.answerIndex)}) ${spec.options?.[spec.answerIndex] ?? ''}`;
+  if (type === 'true_false' && spec.answerTrue !== undefined) return spec.answerTrue ? 'True' : 'False';
+  if (type === 'fill_blank') return (spec.accepted || []).join(' / ');
+  if (type === 'ordering') return (spec.options || []).join(' → ');
+  return '';
+}
+
+// How the question reads in the transcript the model sees, with what the student was shown
+export function describeQuestion(msg: QAMessage): string {
+  const spec = msg.question;
+  if (msg.questionType === 'mcq' && spec?.options) return `${msg.content}\n${spec.options.map((o, i) => `${optionLetter(i)}) ${o}`).join('\n')}`;
+  if (msg.questionType === 'ordering' && spec?.options) return `${msg.content}\nItems: ${shuffledOrder(spec.options, msg.id).join('; ')}`;
+  if (msg.questionType === 'diagram' && spec?.diagram) return `${msg.content}\nDiagram:\n${spec.diagram}`;
+  return msg.content;
+}
+
+function normalise(s: string): string {
+  return s.toLowerCase().normalize('NFKD').replace(/[^\w\s]/g, ' ').replace(/\b(the|a|an)\b/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = row[j];
+      row[j] = next;
+    }
+  }
+  return row[b.length];
+}
+
+// A blank is right when it matches an accepted answer, allowing a typo in longer words
+function blankMatches(text: string, accepted: string[]): boolean {
+  const given = normalise(text);
+  return accepted.some(a => {
+    const want = normalise(a);
+    return given === want || (want.length >= 5 && editDistance(given, want) <= 1);
+  });
+}
+
+// Share of item pairs the student put in the right relative order
+function pairsInOrder(order: string[], correct: string[]): number {
+  let right = 0, total = 0;
+  for (let i = 0; i < order.length; i++) {
+    for (let j = i + 1; j < order.length; j++) {
+      total++;
+      if (correct.indexOf(order[i]) < correct.indexOf(order[j])) right++;
+    }
+  }
+  return total ? right / total : 0;
+}
+
+function score(answer: ClosedAnswer, spec: QuestionSpec): RubricScore | null {
+  switch (answer.kind) {
+    case 'mcq': return spec.answerIndex === undefined ? null : answer.index === spec.answerIndex ? 2 : 0;
+    case 'true_false': return spec.answerTrue === undefined ? null : answer.value === spec.answerTrue ? 2 : 0;
+    case 'fill_blank': return spec.accepted?.length ? (blankMatches(answer.text, spec.accepted) ? 2 : 0) : null;
+    case 'ordering': {
+      if (!spec.options?.length) return null;
+      if (answer.order.every((x, i) => x === spec.options![i])) return 2;
+      return pairsInOrder(answer.order, spec.options) >= 0.7 ? 1 : 0;
+    }
+  }
+}
+
+// Grade a closed answer from the answer key. Closed formats show no working, so
+// completeness and reasoning follow accuracy; a true/false justification's reasoning is
+// filled in from the examiner's grade (see mergeGrades).
+export function gradeClosedAnswer(question: QAMessage, answer: ClosedAnswer): AnswerGrade | null {
+  if (!question.topicId || !question.question || question.questionType !== answer.kind) return null;
+  const s = score(answer, question.question);
+  if (s === null) return null;
+  return {
+    topicId: question.topicId, auto: true,
+    accuracy: s, completeness: s, reasoning: s,
+    concepts: question.question.concept ? [{ concept: question.question.concept, score: s }] : [],
+    misconceptions: []
+  };
+}
+
+// The examiner's grade on an answer that was already graded locally: the key decides
+// accuracy; for true/false the examiner's reading of the justification supplies the
+// reasoning and any misconceptions. Other closed answers keep the local grade.
+export function mergeGrades(local: AnswerGrade, model: AnswerGrade | undefined, type: QuestionType | undefined): AnswerGrade {
+  if (type !== 'true_false' || !model || model.topicId !== local.topicId) return local;
+  return { ...local, reasoning: model.reasoning, misconceptions: model.misconceptions, concepts: local.concepts.length ? local.concepts : model.concepts };
+}
@@ -0,0 +1,467 @@
+import { AnswerGrade, CheckSession, ExtractedTopic, KnowledgeReport, PersonalityStyle, QuestionSpec, QuestionType, RevisitItem, RubricScore, SessionTurnResponse, TopicPerformance, TopicStatus } from "../types";
+import type { LLMProvider, LLMRequest } from "./llmProvider";
+import { recoverJSON } from "./jsonRecovery";
+import { reportModelIssue } from "./modelTelemetry";
+import { citeNoteSection, sectionMarkers } from "./noteSections";
+import type { TopicGroup } from "./topicExtraction";
+import { cleanPrerequisites } from "./topicGraph";
+
+// Runtime validation for everything the model returns. Near-misses (a status of "ok",
+// "true" as a string, a topic name where an id belongs) are coerced and recorded;
+// anything that can't be salvaged is a hard error, which triggers one re-ask.
+
+export interface SchemaResult<T> {
+  value: T | null;
+  errors: string[];
+  coercions: string[];
+}
+
+export type Validator<T> = (raw: unknown) => SchemaResult<T>;
+
+class Collector {
+  errors: string[] = [];
+  coercions: string[] = [];
+  coerce(path: string, from: unknown, to: unknown) {
+    this.coercions.push(`${path}: ${JSON.stringify(from)} → ${JSON.stringify(to)}`);
+  }
+  // null for the paths that bail out before building a value; those always have errors
+  result<T>(value: T | null): SchemaResult<T> {
+    return { value: this.errors.length ? null : value, errors: this.errors, coercions: this.coercions };
+  }
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function str(c: Collector, path: string, v: unknown, fallback?: string): string {
+  if (typeof v === 'string') return v.trim();
+  if (typeof v === 'number' || typeof v === 'boolean') { c.coerce(path, v, String(v)); return String(v); }
+  if (fallback !== undefined) {
+    if (v !== undefined) c.coerce(path, v, fallback);
+    return fallback;
+  }
+  c.errors.push(`${path}: expected string, got ${v === undefined ? 'nothing' : JSON.stringify(v)}`);
+  return '';
+}
+
+function bool(c: Collector, path: string, v: unknown, fallback: boolean): boolean {
+  if (typeof v === 'boolean') return v;
+  if (v === 'true' || v === 'false') { c.coerce(path, v, v === 'true'); return v === 'true'; }
+  if (v !== undefined) c.coerce(path, v, fallback);
+  return fallback;
+}
+
+function strList(c: Collector, path: string, v: unknown): string[] {
+  if (Array.isArray(v)) return v.filter(x => typeof x === 'string' || typeof x === 'number').map(x => String(x).trim()).filter(Boolean);
+  if (typeof v === 'string') {
+    const list = v.split(/[,;\n]/).map(s => s.trim()).filter(Boolean);
+    c.coerce(path, v, list);
+    return list;
+  }
+  if (v !== undefined) c.coerce(path, v, []);
+  return [];
+}
+
+export function slugify(s: string): string {
+  return s.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+const STATUS_SYNONYMS: Record<string, Exclude<TopicStatus, 'untested'>> = {
+  strong: 'strong', ok: 'strong', good: 'strong', correct: 'strong', solid: 'strong', mastered: 'strong', pass: 'strong',
+  weak: 'weak', partial: 'weak', shallow: 'weak', fair: 'weak', incomplete: 'weak', vague: 'weak',
+  revisit: 'revisit', wrong: 'revisit', incorrect: 'revisit', misconception: 'revisit', fail: 'revisit', poor: 'revisit', needs_revisit: 'revisit'
+};
+
+function status(c: Collector, path: string, v: unknown, allowUntested: boolean): TopicStatus | null {
+  if (typeof v !== 'string') return null;
+  const key = slugify(v);
+  if (allowUntested && (key === 'untested' || key === 'not_covered' || key === 'not_tested')) {
+    if (v !== 'untested') c.coerce(path, v, 'untested');
+    return 'untested';
+  }
+  const mapped = STATUS_SYNONYMS[key];
+  if (mapped && mapped !== v) c.coerce(path, v, mapped);
+  return mapped ?? null;
+}
+
+// Match a model-supplied topic reference to an extracted topic: exact id, then slugged id,
+// then topic name. Returns null when the model invented a topic.
+export function resolveTopicId(ref: unknown, topics: ExtractedTopic[]): string | null {
+  if (typeof ref !== 'string' || !ref.trim()) return null;
+  if (topics.some(t => t.id === ref)) return ref;
+  const slug = slugify(ref);
+  return topics.find(t => t.id === slug || slugify(t.name) === slug)?.id ?? null;
+}
+
+function topicRef(c: Collector, path: string, v: unknown, topics: ExtractedTopic[]): string | null {
+  const id = resolveTopicId(v, topics);
+  if (id && id !== v) c.coerce(path, v, id);
+  return id;
+}
+
+// 0–2 rubric score. Numbers in a string are read; anything above the scale is taken as
+// full marks. Null when there's no number to read.
+function rubricScore(c: Collector, path: string, v: unknown): RubricScore | null {
+  const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() && !isNaN(Number(v)) ? Number(v) : NaN;
+  if (isNaN(n)) return null;
+  const score = Math.max(0, Math.min(2, Math.round(n))) as RubricScore;
+  if (score !== v) c.coerce(path, v, score);
+  return score;
+}
+
+// Match a model-supplied concept to one of the topic's concepts, by exact text then by slug
+function conceptRef(c: Collector, path: string, v: unknown, concepts: string[]): string | null {
+  if (typeof v !== 'string' || !v.trim()) return null;
+  const found = concepts.find(x => x === v) ?? concepts.find(x => slugify(x) === slugify(v));
+  if (found && found !== v) c.coerce(path, v, found);
+  return found ?? null;
+}
+
+// --- Topic extraction ---
+
+export interface TopicExtractionPayload {
+  title: string;
+  topics: ExtractedTopic[];
+}
+
+export const validateTopicExtraction: Validator<TopicExtractionPayload> = raw => {
+  const c = new Collector();
+  const obj = Array.isArray(raw) ? (c.coerce('$', 'array', '{topics}'), { topics: raw }) : raw;
+  if (!isObject(obj)) { c.errors.push('$: expected object'); return c.result({ title: '', topics: [] }); }
+
+  const title = str(c, 'title', obj.title, 'Uploaded Notes') || 'Uploaded Notes';
+  const rawTopics: unknown[] = Array.isArray(obj.topics) ? obj.topics : [];
+  const seen = new Set<string>();
+  const topics: ExtractedTopic[] = [];
+  // Prerequisites may name topics listed later, so they're resolved once all are read
+  const rawPrerequisites = new Map<ExtractedTopic, string[]>();
+
+  rawTopics.forEach((t, i) => {
+    const path = `topics[${i}]`;
+    if (!isObject(t)) { c.coerce(path, t, 'dropped'); return; }
+    const name = str(c, `${path}.name`, t.name, '') || (typeof t.id === 'string' ? t.id.replace(/_/g, ' ') : '');
+    if (!name) { c.coerce(path, t, 'dropped (no name or id)'); return; }
+    let id = typeof t.id === 'string' && t.id.trim() ? slugify(t.id) : slugify(name);
+    if (id !== t.id) c.coerce(`${path}.id`, t.id, id);
+    for (let n = 2; seen.has(id); n++) id = `${slugify(t.id || name)}_${n}`;
+    seen.add(id);
+    const noteSection = typeof t.noteSection === 'string' && t.noteSection.trim() ? t.noteSection.trim() : undefined;
+    const subject = typeof t.subject === 'string' && t.subject.trim() ? t.subject.trim() : undefined;
+    const topic: ExtractedTopic = { id, name, concepts: strList(c, `${path}.concepts`, t.concepts), noteSection, ...(subject ? { subject } : {}) };
+    if (t.prerequisites !== undefined) rawPrerequisites.set(topic, strList(c, `${path}.prerequisites`, t.prerequisites));
+    topics.push(topic);
+  });
+
+  rawPrerequisites.forEach((refs, topic) => {
+    const path = `topics[${topics.indexOf(topic)}].prerequisites`;
+    const ids = refs.map((ref, j) => topicRef(c, `${path}[${j}]`, ref, topics)).filter((id): id is string => !!id);
+    if (ids.length) topic.prerequisites = ids;
+  });
+
+  if (topics.length === 0) c.errors.push('topics: no usable topics');
+  return c.result({ title, topics: cleanPrerequisites(topics) });
+};
+
+export interface TopicGroupsPayload {
+  title: string;
+  topics: TopicGroup[];
+}
+
+// Reduce step of chunked extraction: member references must name a candidate topic
+export function topicGroupsValidator(candidates: ExtractedTopic[]): Validator<TopicGroupsPayload> {
+  return raw => {
+    const c = new Collector();
+    if (!isObject(raw)) { c.errors.push('$: expected object'); return c.result({ title: '', topics: [] }); }
+    const title = str(c, 'title', raw.title, '');
+    const groups: TopicGroup[] = [];
+    (Array.isArray(raw.topics) ? raw.topics : []).forEach((g: unknown, i: number) => {
+      const path = `topics[${i}]`;
+      if (!isObject(g)) { c.coerce(path, g, 'dropped'); return; }
+      const name = str(c, `${path}.name`, g.name, '');
+      if (!name) { c.coerce(path, g, 'dropped (no name)'); return; }
+      const memberIds = strList(c, `${path}.memberIds`, g.memberIds)
+        .map((ref, j) => topicRef(c, `${path}.memberIds[${j}]`, ref, candidates))
+        .filter((id): id is string => !!id);
+      if (!memberIds.length) { c.coerce(path, g, 'dropped (no known members)'); return; }
+      groups.push({ id: typeof g.id === 'string' && g.id.trim() ? slugify(g.id) : slugify(name), name, memberIds });
+    });
+    if (groups.length === 0) c.errors.push('topics: no usable groups');
+    return c.result({ title, topics: groups });
+  };
+}
+
+// --- Session turn ---
+
+const QUESTION_TYPE_SYNONYMS: Record<string, QuestionType> = {
+  open: 'open', open_ended: 'open', free_text: 'open', short_answer: 'open',
+  mcq: 'mcq', multiple_choice: 'mcq', multiplechoice: 'mcq', choice: 'mcq',
+  true_false: 'true_false', truefalse: 'true_false', tf: 'true_false', true_or_false: 'true_false',
+  fill_blank: 'fill_blank', fill_in_the_blank: 'fill_blank', fill_in_blank: 'fill_blank', cloze: 'fill_blank', blank: 'fill_blank',
+  ordering: 'ordering', order: 'ordering', sequence: 'ordering', sequencing: 'ordering',
+  diagram: 'diagram', explain_the_diagram: 'diagram', explain_diagram: 'diagram'
+};
+
+// A format and the spec it needs. A closed question without a usable answer key is asked
+// as an open one: the message already carries the question, and the examiner grades it.
+function questionFormat(c: Collector, rawType: unknown, raw: unknown, concepts: string[]): { questionType: QuestionType; question?: QuestionSpec } {
+  if (rawType === undefined || rawType === null) return { questionType: 'open' };
+  const type = typeof rawType === 'string' ? QUESTION_TYPE_SYNONYMS[slugify(rawType)] : undefined;
+  if (!type) { c.coerce('questionType', rawType, 'open'); return { questionType: 'open' }; }
+  if (type !== rawType) c.coerce('questionType', rawType, type);
+  if (type === 'open') return { questionType: 'open' };
+
+  const q = isObject(raw) ? raw : {};
+  const spec: QuestionSpec = {};
+  const concept = conceptRef(c, 'question.concept', q.concept, concepts);
+  if (concept) spec.concept = concept;
+  const options = strList(c, 'question.options', q.options);
+
+  if (type === 'mcq' && options.length >= 2 && options.length <= 6) {
+    // The key may be the option's text, its letter or its 0-based index
+    const a = q.answer;
+    const index = typeof a === 'number' ? a
+      : typeof a === 'string' && /^[A-Fa-f]$/.test(a.trim()) ? a.trim().toUpperCase().charCodeAt(0) - 65
+      : options.findIndex(o => typeof a === 'string' && slugify(o) === slugify(a));
+    if (Number.isInteger(index) && index >= 0 && index < options.length) return { questionType: type, question: { ...spec, options, answerIndex: index } };
+  } else if (type === 'true_false') {
+    const a = q.answer === 'true' || q.answer === 'false' ? q.answer === 'true' : q.answer;
+    if (typeof a === 'boolean') return { questionType: type, question: { ...spec, answerTrue: a } };
+  } else if (type === 'fill_blank') {
+    const accepted = strList(c, 'question.answer', q.answer);
+    if (accepted.length) return { questionType: type, question: { ...spec, accepted } };
+  } else if (type === 'ordering' && options.length >= 2 && new Set(options).size === options.length) {
+    return { questionType: type, question: { ...spec, options } };
+  } else if (type === 'diagram') {
+    const diagram = typeof q.diagram === 'string' ? q.diagram.replace(/\s+$/, '') : '';
+    if (diagram.trim()) return { questionType: type, question: { ...spec, diagram } };
+  }
+  c.coerce('questionType', rawType, 'open (no usable question spec)');
+  return { questionType: 'open' };
+}
+
+export function sessionTurnValidator(topics: ExtractedTopic[]): Validator<SessionTurnResponse> {
+  return raw => {
+    const c = new Collector();
+    if (!isObject(raw)) {
+      c.errors.push('$: expected object');
+      return c.result<SessionTurnResponse>(null);
+    }
+
+    const message = str(c, 'message', raw.message, '');
+    if (!message) c.errors.push('message: missing or empty');
+
+    let currentTopicId = '';
+    if (raw.currentTopicId !== '' && raw.currentTopicId !== undefined) {
+      currentTopicId = topicRef(c, 'currentTopicId', raw.currentTopicId, topics) ?? '';
+      if (!currentTopicId) c.coerce('currentTopicId', raw.currentTopicId, '');
+    }
+
+    let topicUpdate: SessionTurnResponse['topicUpdate'];
+    if (isObject(raw.topicUpdate)) {
+      const topicId = topicRef(c, 'topicUpdate.topicId', raw.topicUpdate.topicId, topics);
+      const s = status(c, 'topicUpdate.status', raw.topicUpdate.status, false);
+      if (topicId && s && s !== 'untested') {
+        topicUpdate = { topicId, status: s, evidence: str(c, 'topicUpdate.evidence', raw.topicUpdate.evidence, '') };
+      } else {
+        // A rating we can't attribute or interpret is worse than none — drop it, keep the turn
+        c.coerce('topicUpdate', raw.topicUpdate, 'dropped');
+      }
+    } else if (raw.topicUpdate !== undefined && raw.topicUpdate !== null) {
+      c.coerce('topicUpdate', raw.topicUpdate, 'dropped');
+    }
+
+    let grade: AnswerGrade | undefined;
+    if (isObject(raw.grade)) {
+      const g = raw.grade;
+      // The grade is for the answer to the question in play, so it falls back to that topic
+      const topicId = topicRef(c, 'grade.topicId', g.topicId, topics) ?? topicUpdate?.topicId ?? (currentTopicId || null);
+      const topic = topics.find(t => t.id === topicId);
+      const accuracy = rubricScore(c, 'grade.accuracy', g.accuracy);
+      const completeness = rubricScore(c, 'grade.completeness', g.completeness);
+      const reasoning = rubricScore(c, 'grade.reasoning', g.reasoning);
+      if (topic && accuracy !== null && completeness !== null && reasoning !== null) {
+        const concepts: AnswerGrade['concepts'] = [];
+        (Array.isArray(g.concepts) ? g.concepts : []).forEach((x: unknown, i: number) => {
+          const path = `grade.concepts[${i}]`;
+          const concept = isObject(x) ? conceptRef(c, `${path}.concept`, x.concept, topic.concepts) : null;
+          const score = isObject(x) ? rubricScore(c, `${path}.score`, x.score) : null;
+          if (!concept || score === null || concepts.some(k => k.concept === concept)) { c.coerce(path, x, 'dropped'); return; }
+          concepts.push({ concept, score });
+        });
+        grade = { topicId: topic.id, accuracy, completeness, reasoning, concepts, misconceptions: strList(c, 'grade.misconceptions', g.misconceptions) };
+      } else {
+        c.coerce('grade', raw.grade, 'dropped');
+      }
+    } else if (raw.grade !== undefined && raw.grade !== null) {
+      c.coerce('grade', raw.grade, 'dropped');
+    }
+
+    const currentTopic = topics.find(t => t.id === currentTopicId);
+    const format = questionFormat(c, raw.questionType, raw.question, currentTopic?.concepts ?? []);
+
+    // Absent unless the reply judged a misconception; an unreadable verdict counts as none
+    const resolved = raw.misconceptionResolved;
+    const misconceptionResolved = typeof resolved === 'boolean' || resolved === 'true' || resolved === 'false'
+      ? bool(c, 'misconceptionResolved', resolved, false)
+      : undefined;
+    if (misconceptionResolved === undefined && resolved !== undefined && resolved !== null) c.coerce('misconceptionResolved', resolved, 'dropped');
+
+    return c.result({
+      message,
+      isFollowUp: bool(c, 'isFollowUp', raw.isFollowUp, false),
+      currentTopicId,
+      ...format,
+      ...(topicUpdate ? { topicUpdate } : {}),
+      ...(grade ? { grade } : {}),
+      ...(misconceptionResolved !== undefined ? { misconceptionResolved } : {}),
+      sessionShouldEnd: bool(c, 'sessionShouldEnd', raw.sessionShouldEnd, false),
+      overtimeNeeded: bool(c, 'overtimeNeeded', raw.overtimeNeeded, false)
+    });
+  };
+}
+
+// --- Knowledge report ---
+
+export type ReportPayload = Pick<KnowledgeReport, 'topics' | 'revisitList'>;
+
+// Every extracted topic appears exactly once; anything the model skipped falls back to the
+// in-session assessment, then to untested.
+export function reportValidator(session: CheckSession): Validator<ReportPayload> {
+  return raw => {
+    const c = new Collector();
+    if (!isObject(raw)) { c.errors.push('$: expected object'); return c.result({ topics: [], revisitList: [] }); }
+    const rawTopics: unknown[] = Array.isArray(raw.topics) ? raw.topics : [];
+    if (!Array.isArray(raw.topics)) c.errors.push('topics: expected array');
+
+    const markers = sectionMarkers(session.noteContent);
+    const byId = new Map<string, TopicPerformance>();
+    rawTopics.forEach((t, i) => {
+      const path = `topics[${i}]`;
+      if (!isObject(t)) { c.coerce(path, t, 'dropped'); return; }
+      const topicId = topicRef(c, `${path}.topicId`, t.topicId ?? t.topicName, session.topics);
+      if (!topicId) { c.coerce(`${path}.topicId`, t.topicId, 'dropped (unknown topic)'); return; }
+      if (byId.has(topicId)) { c.coerce(path, topicId, 'dropped (duplicate)'); return; }
+      const st = status(c, `${path}.status`, t.status, true);
+      const extracted = session.topics.find(x => x.id === topicId)!;
+      const fallback = session.topicPerformances[topicId];
+      if (!st) c.coerce(`${path}.status`, t.status, fallback?.status ?? 'untested');
+      byId.set(topicId, {
+        topicId,
+        topicName: extracted.name,
+        status: st ?? fallback?.status ?? 'untested',
+        evidence: str(c, `${path}.evidence`, t.evidence, fallback?.evidence ?? ''),
+        noteSection: citeNoteSection(t.noteSection, extracted.noteSection, markers),
+        concepts: extracted.concepts,
+        ...(extracted.sources ? { sources: extracted.sources } : {})
+      });
+    });
+
+    const topics = session.topics.map(t => {
+      const found = byId.get(t.id);
+      if (found) return found;
+      const fallback = session.topicPerformances[t.id];
+      c.coerce(`topics.${t.id}`, 'missing', fallback ? fallback.status : 'untested');
+      return fallback ?? { topicId: t.id, topicName: t.name, status: 'untested' as const, evidence: 'Not covered.', noteSection: t.noteSection, concepts: t.concepts, ...(t.sources ? { sources: t.sources } : {}) };
+    });
+
+    const revisitList: RevisitItem[] = [];
+    (Array.isArray(raw.revisitList) ? raw.revisitList : []).forEach((r: unknown, i: number) => {
+      const path = `revisitList[${i}]`;
+      if (typeof r === 'string' && r.trim()) { c.coerce(path, r, '{concept}'); revisitList.push({ concept: r.trim(), topicName: '' }); return; }
+      if (!isObject(r)) { c.coerce(path, r, 'dropped'); return; }
+      const concept = str(c, `${path}.concept`, r.concept, '');
+      if (!concept) { c.coerce(path, r, 'dropped (no concept)'); return; }
+      const topicId = resolveTopicId(r.topicName, session.topics);
+      const topic = topicId ? session.topics.find(t => t.id === topicId) : undefined;
+      revisitList.push({
+        concept,
+        topicName: topic?.name ?? str(c, `${path}.topicName`, r.topicName, ''),
+        noteSection: citeNoteSection(r.noteSection, topic?.noteSection, markers)
+      });
+    });
+
+    return c.result({ topics, revisitList });
+  };
+}
+
+// --- Personality ---
+
+const EMOJI_SYNONYMS: Record<string, PersonalityStyle['emojiUsage']> = {
+  none: 'none', never: 'none', no: 'none',
+  rare: 'rare', rarely: 'rare', occasional: 'rare', occasionally: 'rare', low: 'rare',
+  moderate: 'moderate', sometimes: 'moderate', medium: 'moderate',
+  frequent: 'frequent', frequently: 'frequent', often: 'frequent', high: 'frequent', heavy: 'frequent', lots: 'frequent'
+};
+
+export const validatePersonalityStyle: Validator<PersonalityStyle> = raw => {
+  const c = new Collector();
+  if (!isObject(raw)) { c.errors.push('$: expected object'); return c.result<PersonalityStyle>(null); }
+
+  const rawDescription = str(c, 'rawDescription', raw.rawDescription, '');
+  if (!rawDescription) c.errors.push('rawDescription: missing or empty');
+
+  const emojiKey = typeof raw.emojiUsage === 'string' ? slugify(raw.emojiUsage) : '';
+  const emojiUsage = EMOJI_SYNONYMS[emojiKey] ?? 'rare';
+  if (emojiUsage !== raw.emojiUsage) c.coerce('emojiUsage', raw.emojiUsage, emojiUsage);
+
+  return c.result({
+    rawDescription,
+    phrases: strList(c, 'phrases', raw.phrases),
+    emojiUsage,
+    humor: str(c, 'humor', raw.humor, ''),
+    encouragement: str(c, 'encouragement', raw.encouragement, ''),
+    corrections: str(c, 'corrections', raw.corrections, '')
+  });
+};
+
+// --- Generation with validation ---
+
+// Generate, recover JSON, validate. On a hard failure the model is asked once more with
+// its own output and the validation errors; coercions and re-asks go to telemetry.
+export async function generateValidated<T>(
+  llm: LLMProvider,
+  req: LLMRequest,
+  validate: Validator<T>,
+  context: string,
+  // Streams the response, handing over each chunk as it arrives; attempt 2 is the re-ask
+  onChunk?: (chunk: string, attempt: number) => void
+): Promise<T> {
+  let attempts = 0;
+  const read = async (request: LLMRequest) => {
+    const n = ++attempts;
+    if (!onChunk) return llm.generate(request);
+    let text = '';
+    for await (const chunk of llm.stream(request)) {
+      text += chunk;
+      onChunk(chunk, n);
+    }
+    return text;
+  };
+  const attempt = async (request: LLMRequest) => {
+    const text = await read(request);
+    console.log(`[${context}] streamed len:`, text.length, '| preview:', text.slice(0, 100));
+    if (!text.trim()) throw new Error('Empty response from model');
+    return { text, result: validate(recoverJSON(text).value) };
+  };
+
+  const first = await attempt(req);
+  if (first.result.coercions.length) reportModelIssue(`schema/${context}`, `Coerced ${first.result.coercions.join('; ')}`);
+  if (first.result.value !== null) return first.result.value;
+
+  reportModelIssue(`schema/${context}`, `Invalid response, re-asking: ${first.result.errors.join('; ')}`);
+  const second = await attempt({
+    ...req,
+    messages: [
+      ...req.messages,
+      { role: 'model', text: first.text },
+      { role: 'user', text: `Your previous response was invalid: ${first.result.errors.join('; ')}. Respond again with ONLY the corrected JSON object in the required format.` }
+    ]
+  });
+  if (second.result.coercions.length) reportModelIssue(`schema/${context}`, `Coerced ${second.result.coercions.join('; ')}`);
+  if (second.result.value !== null) return second.result.value;
+
+  const msg = `Response failed validation after re-ask: ${second.result.errors.join('; ')}`;
+  reportModelIssue(`schema/${context}`, msg);
+  throw new Error(msg);
+}
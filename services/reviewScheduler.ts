@@ -0,0 +1,112 @@
+import { ExtractedTopic, KnowledgeReport, ReviewDeck, ReviewItem, TopicPerformance } from "../types";
+import { getStore } from "./localStore";
+import { slugify } from "./responseSchemas";
+
+// SM-2 spaced repetition over the concepts in each report. Every assessed topic turns its
+// concepts into review items; the concept's own graded status where answers touched it,
+// else the topic's (sharpened by whether the concept made the revisitList), becomes the
+// SM-2 quality grade, and the next due date follows from it.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+// Concepts per review session, most overdue first
+export const REVIEW_SESSION_LIMIT = 12;
+
+// Note-set identity when the report has one, so re-uploads of the same notes share a deck
+export function deckKeyFor(report: Pick<KnowledgeReport, 'noteSetId' | 'uploadId' | 'uploadTitle'>): string {
+  return report.noteSetId || report.uploadId || `title:${slugify(report.uploadTitle)}`;
+}
+
+// 0–5 quality grade; below 3 counts as a lapse and restarts the interval
+export function gradeConcept(status: TopicPerformance['status'], flagged: boolean): number {
+  if (status === 'strong') return flagged ? 4 : 5;
+  if (status === 'weak') return flagged ? 2 : 3;
+  return flagged ? 1 : 2;
+}
+
+export function scheduleReview(item: ReviewItem, quality: number, now = Date.now()): ReviewItem {
+  const passed = quality >= 3;
+  const repetitions = passed ? item.repetitions + 1 : 0;
+  const intervalDays = !passed || repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.intervalDays * item.easiness);
+  const easiness = Math.max(MIN_EASINESS, item.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return { ...item, repetitions, intervalDays, easiness, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+// Fold a finished session into the schedule. Untested topics leave their items untouched.
+export function applyReportToReviews(items: ReviewItem[], report: KnowledgeReport, now = Date.now()): ReviewItem[] {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const deckKey = deckKeyFor(report);
+  const flagged = new Set(report.revisitList.map(r => `${slugify(r.topicName)}:${slugify(r.concept)}`));
+
+  for (const perf of report.topics) {
+    if (perf.status === 'untested') continue;
+    const concepts = [...new Set([
+      ...perf.concepts,
+      ...report.revisitList.filter(r => r.topicName === perf.topicName).map(r => r.concept)
+    ])];
+    for (const concept of concepts) {
+      const id = `${deckKey}:${perf.topicId}:${slugify(concept)}`;
+      const existing: ReviewItem = byId.get(id) ?? {
+        id, deckKey, uploadId: report.uploadId, noteSetId: report.noteSetId, uploadTitle: report.uploadTitle,
+        topicId: perf.topicId, topicName: perf.topicName, concept,
+        easiness: 2.5, repetitions: 0, intervalDays: 0, dueAt: now, lastReviewedAt: now, lastStatus: perf.status
+      };
+      const mastery = perf.conceptMastery?.find(m => m.concept === concept && m.status !== 'untested');
+      const status = mastery?.status ?? perf.status;
+      const quality = gradeConcept(status, flagged.has(`${slugify(perf.topicName)}:${slugify(concept)}`));
+      byId.set(id, { ...scheduleReview(existing, quality, now), noteSection: perf.noteSection ?? existing.noteSection, lastStatus: status as ReviewItem['lastStatus'] });
+    }
+  }
+  return [...byId.values()];
+}
+
+function endOfDay(now: number): number {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+// Items due by the end of today, grouped by the notes they came from, most overdue deck first
+export function dueReviewDecks(items: ReviewItem[], now = Date.now()): ReviewDeck[] {
+  const cutoff = endOfDay(now);
+  const decks = new Map<string, ReviewDeck>();
+  for (const item of items.filter(i => i.dueAt <= cutoff).sort((a, b) => a.dueAt - b.dueAt)) {
+    const deck = decks.get(item.deckKey) ?? { deckKey: item.deckKey, uploadId: item.uploadId, noteSetId: item.noteSetId, uploadTitle: item.uploadTitle, items: [] };
+    deck.items.push(item);
+    decks.set(item.deckKey, deck);
+  }
+  return [...decks.values()];
+}
+
+// Topics for a review session: each topic keeps only its due concepts
+export function reviewTopics(items: ReviewItem[]): ExtractedTopic[] {
+  const topics = new Map<string, ExtractedTopic>();
+  for (const item of items.slice(0, REVIEW_SESSION_LIMIT)) {
+    const topic = topics.get(item.topicId) ?? { id: item.topicId, name: item.topicName, concepts: [], noteSection: item.noteSection };
+    topic.concepts.push(item.concept);
+    topics.set(item.topicId, topic);
+  }
+  return [...topics.values()];
+}
+
+// Stand-in notes when the original upload isn't stored on this device
+export function reviewNotes(deck: ReviewDeck): string {
+  return [`# ${deck.uploadTitle} — review`, ...reviewTopics(deck.items).map(t =>
+    `## ${t.noteSection || t.name}\nConcepts to review: ${t.concepts.join(', ')}`
+  )].join('\n\n');
+}
+
+const reviews = () => getStore('reviews');
+
+export function loadReviewItems(): Promise<ReviewItem[]> {
+  return reviews().getAll();
+}
+
+export async function recordReviewResults(report: KnowledgeReport, now = Date.now()): Promise<ReviewItem[]> {
+  const store = reviews();
+  const items = await store.getAll();
+  const next = applyReportToReviews(items, report, now);
+  const changed = next.filter(i => i.lastReviewedAt === now);
+  await Promise.all(changed.map(i => store.put(i)));
+  return next;
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { runScriptedSession, SessionFixture } from "./scriptedSession";
+import {
+  CARDIAC_SESSION_FIXTURE, STRONG_TIME_UP_FIXTURE, QUESTION_COUNT_FIXTURE, MISCONCEPTION_FIXTURE,
+  QUESTION_FORMATS_FIXTURE, SESSION_FIXTURES
+} from "./mockFixtures";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const TOPICS = 'topics:cardiac_output,frank_starling,cardiac_cycle';
+
+const run = (fixture: SessionFixture) => runScriptedSession(fixture).then(r => ({
+  ...r,
+  statuses: Object.fromEntries(r.report.topics.map(t => [t.topicId, t.status]))
+}));
+
+describe('runScriptedSession', () => {
+  it('recovers malformed model output and runs into overtime', async () => {
+    const r = await run(CARDIAC_SESSION_FIXTURE);
+    expect(r.events).toEqual([
+      TOPICS, 'open:cardiac_output', 'turn:frank_starling:cardiac_output=strong', 'turn:frank_starling',
+      'turn:cardiac_cycle:frank_starling=weak', 'time-up:overtime', 'turn:', 'turn:cardiac_cycle:frank_starling=strong',
+      'turn:cardiac_cycle:cardiac_cycle=revisit', 'turn:cardiac_cycle', 'model-ended'
+    ]);
+    expect(r.reportFallbackUsed).toBe(false);
+    expect(r.statuses).toEqual({ cardiac_output: 'strong', frank_starling: 'weak', cardiac_cycle: 'revisit' });
+    expect(r.report.revisitList.map(x => x.concept)).toEqual(['length-tension relationship', 'isovolumetric contraction']);
+    expect(r.report.overtimeUsed).toBe(true);
+    // The hallucinated topic never reaches the performances
+    expect(Object.keys(r.session.topicPerformances)).not.toContain('valve_mechanics');
+  }, 15000);
+
+  it('ends at time-up when everything is strong and falls back to a local report', async () => {
+    const r = await run(STRONG_TIME_UP_FIXTURE);
+    expect(r.events).toEqual([
+      TOPICS, 'open:cardiac_output', 'turn:frank_starling:cardiac_output=strong', 'turn:cardiac_cycle:frank_starling=strong',
+      'turn:cardiac_cycle:cardiac_cycle=strong', 'time-up:end', 'report-error:Invalid request'
+    ]);
+    expect(r.reportFallbackUsed).toBe(true);
+    expect(r.statuses).toEqual({ cardiac_output: 'strong', frank_starling: 'strong', cardiac_cycle: 'strong' });
+    expect(r.report.revisitList).toEqual([]);
+    expect(r.report.pacing).toEqual({ kind: 'timed', minutes: 15 });
+  });
+
+  it('counts questions, grants one overtime question and puts the confidently wrong topic first', async () => {
+    const r = await run(QUESTION_COUNT_FIXTURE);
+    expect(r.events).toEqual([
+      TOPICS, 'open:cardiac_output', 'turn:frank_starling:cardiac_output=strong', 'turn:cardiac_cycle:frank_starling=weak',
+      'turn:frank_starling:cardiac_cycle=strong', 'time-up:overtime', 'turn:frank_starling:frank_starling=strong',
+      'model-ended', 'report-error:Invalid request'
+    ]);
+    expect(r.reportFallbackUsed).toBe(true);
+    expect(r.report.revisitList).toEqual([expect.objectContaining({ topicName: 'Frank-Starling Law', concept: 'preload', confidentlyWrong: true })]);
+  });
+
+  it('corrects one misconception and leaves the next unresolved', async () => {
+    const r = await run(MISCONCEPTION_FIXTURE);
+    expect(r.events.at(-2)).toBe('answers-exhausted');
+    expect(r.report.misconceptions?.map(m => m.resolved)).toEqual([true, false]);
+    expect(r.statuses.cardiac_cycle).toBe('weak');
+  });
+
+  it('grades closed answers locally and downgrades an unusable spec', async () => {
+    const r = await run(QUESTION_FORMATS_FIXTURE);
+    expect(r.events.filter(e => e.startsWith('auto-graded'))).toEqual(['auto-graded:2', 'auto-graded:0', 'auto-graded:2', 'auto-graded:1']);
+    // The one-option multiple choice question came back as an open one
+    expect(r.events).toContain('turn:cardiac_output:frank_starling=strong');
+    expect(r.statuses).toEqual({ cardiac_output: 'strong', frank_starling: 'strong', cardiac_cycle: 'weak' });
+  });
+
+  it('keeps going after a failed turn and builds the fallback report', async () => {
+    const r = await run({
+      name: 'turn-error',
+      notes: CARDIAC_SESSION_FIXTURE.notes,
+      duration: 0,
+      pacing: { kind: 'untimed' },
+      answers: [
+        { text: 'CO is SV times HR.', elapsedSeconds: 60 },
+        { text: 'CO is stroke volume times heart rate.', elapsedSeconds: 60 }
+      ],
+      script: [
+        STRONG_TIME_UP_FIXTURE.script[0],
+        STRONG_TIME_UP_FIXTURE.script[1],
+        { tag: 'sessionTurn', error: { message: 'Invalid request', status: 400 } },
+        { tag: 'sessionTurn', response: { message: 'Right. That covers it.', isFollowUp: false, currentTopicId: 'cardiac_output', topicUpdate: { topicId: 'cardiac_output', status: 'strong', evidence: 'Formula correct' }, sessionShouldEnd: true, overtimeNeeded: false } },
+        { tag: 'report', error: { message: 'Invalid request', status: 400 } }
+      ]
+    });
+    expect(r.events).toEqual([
+      TOPICS, 'open:cardiac_output', 'turn-error:Invalid request', 'turn:cardiac_output:cardiac_output=strong',
+      'model-ended', 'report-error:Invalid request'
+    ]);
+    expect(r.session.messages.map(m => m.content)).toContain('Connection issue. Please try again.');
+    expect(r.reportFallbackUsed).toBe(true);
+    expect(r.statuses).toEqual({ cardiac_output: 'strong', frank_starling: 'untested', cardiac_cycle: 'untested' });
+  });
+
+  // Each step is consumed exactly once: nothing left over, and no request past the end
+  it.each(SESSION_FIXTURES.map(f => [f.name, f] as const))('uses up every scripted step of %s', async (_, fixture) => {
+    const r = await runScriptedSession(fixture);
+    expect(r.remaining).toEqual([]);
+    expect(r.calls).toHaveLength(fixture.script.length);
+  }, 15000);
+});
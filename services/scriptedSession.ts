@@ -0,0 +1,132 @@
+import { CheckSession, ClosedAnswer, ConfidenceLevel, ExtractedTopic, KnowledgeReport, SessionDuration, SessionPacing } from "../types";
+import { extractTopicsFromNotes, runSessionTurn, generateKnowledgeReport } from "./geminiService";
+import { setLLMProvider } from "./llmProvider";
+import { createMockProvider, MockCall, MockStep } from "./mockProvider";
+import {
+  createSession, appendUserMessage, appendClosedAnswer, appendAiNotice, applyTurn, shouldEndAfterTurn,
+  resolveTimeUp, pacingExhausted, enterOvertime, completeSession, buildFallbackReport
+} from "./sessionEngine";
+
+// Headless driver for a whole audit: topic extraction → opening turn → scripted answers
+// (with simulated elapsed time, so overtime fires) → report. Mirrors the handlers in App.tsx
+// but runs against a mock provider, so it needs no network and no DOM.
+
+export interface ScriptedAnswer {
+  text: string;
+  // Simulated seconds the student spends before sending this answer
+  elapsedSeconds: number;
+  confidence?: ConfidenceLevel;
+  // Picked in a closed question's widget instead of typed; `text` is then ignored
+  closed?: ClosedAnswer;
+}
+
+export interface SessionFixture {
+  name: string;
+  notes: string;
+  duration: SessionDuration;
+  // Defaults to a timed session of `duration` minutes
+  pacing?: SessionPacing;
+  script: MockStep[];
+  answers: ScriptedAnswer[];
+}
+
+export interface ScriptedSessionResult {
+  title: string;
+  topics: ExtractedTopic[];
+  session: CheckSession;
+  report: KnowledgeReport;
+  reportFallbackUsed: boolean;
+  events: string[];
+  calls: MockCall[];
+  // Script steps no request consumed
+  remaining: MockStep[];
+}
+
+// Fixed clock origin so timings in the result are reproducible
+const CLOCK_START = Date.UTC(2026, 0, 1, 9, 0, 0);
+
+export async function runScriptedSession(fixture: SessionFixture): Promise<ScriptedSessionResult> {
+  const mock = createMockProvider(fixture.script);
+  const previous = setLLMProvider(mock);
+  const events: string[] = [];
+
+  try {
+    const { title, topics } = await extractTopicsFromNotes(fixture.notes);
+    events.push(`topics:${topics.map(t => t.id).join(',')}`);
+
+    let elapsed = 0;
+    let overtimeTriggered = false;
+    let ended = false;
+    // Turns stream like they do in the app; the text shown while streaming should end up
+    // as the message that gets applied
+    let streamed = '';
+    const onMessage = (partial: string) => { streamed = partial; };
+    const checkStream = (message: string) => {
+      if (streamed && streamed !== message) events.push('stream-mismatch');
+      streamed = '';
+    };
+
+    let session = createSession({ uploadTitle: title, noteContent: fixture.notes, topics, pacing: fixture.pacing ?? { kind: 'timed', minutes: fixture.duration } }, CLOCK_START);
+
+    try {
+      const opening = await runSessionTurn(session, null, 0, true, undefined, onMessage);
+      checkStream(opening.message);
+      session = applyTurn(session, opening, true, CLOCK_START);
+      events.push(`open:${opening.currentTopicId}${opening.questionType !== 'open' ? `:${opening.questionType}` : ''}`);
+    } catch (e) {
+      events.push(`open-error:${(e as Error).message}`);
+      session = appendAiNotice(session, 'The audit is beginning. Walk me through the main topics covered in your notes.', CLOCK_START);
+    }
+
+    for (const answer of fixture.answers) {
+      elapsed += answer.elapsedSeconds;
+      const now = CLOCK_START + elapsed * 1000;
+
+      if (pacingExhausted(session, elapsed) && !overtimeTriggered) {
+        overtimeTriggered = true;
+        if (resolveTimeUp(session) === 'end') {
+          // The app ends the session the second the clock hits zero (or right after the reply to
+          // the last counted answer), not when the next answer arrives
+          if (session.pacing?.kind === 'timed') elapsed = session.duration * 60;
+          else elapsed -= answer.elapsedSeconds;
+          events.push('time-up:end'); ended = true; break;
+        }
+        session = enterOvertime(session);
+        events.push('time-up:overtime');
+      }
+
+      session = answer.closed
+        ? appendClosedAnswer(session, answer.closed, now, answer.confidence)
+        : appendUserMessage(session, answer.text, now, answer.confidence);
+      const sent = session.messages[session.messages.length - 1];
+      if (sent.grade?.auto) events.push(`auto-graded:${sent.grade.accuracy}`);
+      try {
+        const turn = await runSessionTurn(session, sent.content, elapsed, false, undefined, onMessage);
+        checkStream(turn.message);
+        session = applyTurn(session, turn, false, now);
+        events.push(`turn:${turn.currentTopicId}${turn.questionType !== 'open' ? `:${turn.questionType}` : ''}${turn.topicUpdate ? `:${turn.topicUpdate.topicId}=${turn.topicUpdate.status}` : ''}`);
+        if (shouldEndAfterTurn(turn)) { events.push('model-ended'); ended = true; break; }
+      } catch (e) {
+        events.push(`turn-error:${(e as Error).message}`);
+        session = appendAiNotice(session, 'Connection issue. Please try again.', now);
+      }
+    }
+    if (!ended) events.push('answers-exhausted');
+
+    session = completeSession(session, CLOCK_START + elapsed * 1000);
+    let report: KnowledgeReport;
+    let reportFallbackUsed = false;
+    try {
+      report = await generateKnowledgeReport(session);
+    } catch (e) {
+      events.push(`report-error:${(e as Error).message}`);
+      report = buildFallbackReport(session, session.endTime);
+      reportFallbackUsed = true;
+    }
+    session = { ...session, report };
+
+    return { title, topics, session, report, reportFallbackUsed, events, calls: mock.calls, remaining: mock.remaining() };
+  } finally {
+    setLLMProvider(previous);
+  }
+}
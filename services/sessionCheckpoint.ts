@@ -0,0 +1,24 @@
+import { SessionCheckpoint } from "../types";
+import { getStore } from "./localStore";
+
+// One unfinished session per account per device, rewritten after every turn so a reload
+// or crash can pick up where it left off. Cleared when the session completes or is discarded.
+
+const checkpoints = () => getStore('checkpoints');
+
+export function checkpointKey(userId?: string): string {
+  return userId || 'guest';
+}
+
+export async function saveCheckpoint(checkpoint: SessionCheckpoint): Promise<void> {
+  await checkpoints().put(checkpoint);
+}
+
+export async function loadCheckpoint(key: string): Promise<SessionCheckpoint | null> {
+  const checkpoint = await checkpoints().get(key);
+  return checkpoint?.session && checkpoint.session.status !== 'complete' ? checkpoint : null;
+}
+
+export async function clearCheckpoint(key: string): Promise<void> {
+  await checkpoints().delete(key);
+}
@@ -0,0 +1,226 @@
+import { CheckSession, ClosedAnswer, ConfidenceLevel, ExtractedTopic, KnowledgeReport, QAMessage, SessionPacing, SessionPause, SessionTurnResponse } from "../types";
+import { noteSetIdFor } from "./noteIdentity";
+import { topicWeight } from "./topicEditing";
+import { linkReportTopics } from "./topicGraph";
+import { attachGrading, shakyConcepts } from "./answerGrading";
+import { misconceptionOutcomes, updateMisconceptions } from "./misconceptions";
+import { prioritiseRevisitList, topicCalibration } from "./calibration";
+import { describeAnswer, gradeClosedAnswer, mergeGrades, pendingQuestion } from "./questionFormats";
+
+// Pure session state transitions. App.tsx wires these to React state; the scripted
+// session runner drives them headlessly. Nothing here touches the network or the DOM.
+
+export function generateId(): string {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+export function createSession(
+  params: { uploadId?: string; noteSetId?: string; uploadTitle: string; noteContent: string; topics: ExtractedTopic[]; pacing: SessionPacing; reviewItemIds?: string[] },
+  now = Date.now()
+): CheckSession {
+  return {
+    id: generateId(), uploadId: params.uploadId, noteSetId: params.noteSetId ?? noteSetIdFor(params.noteContent), uploadTitle: params.uploadTitle, noteContent: params.noteContent, topics: params.topics,
+    messages: [], duration: params.pacing.kind === 'timed' ? params.pacing.minutes : 0, pacing: params.pacing, startTime: now, reviewItemIds: params.reviewItemIds,
+    isOvertimeActive: false, topicPerformances: {}, status: 'active'
+  };
+}
+
+export function appendUserMessage(session: CheckSession, text: string, now = Date.now(), confidence?: ConfidenceLevel): CheckSession {
+  const userMsg: QAMessage = { id: generateId(), role: 'user', content: text, ...(confidence ? { confidence } : {}), timestamp: now };
+  return { ...session, messages: [...session.messages, userMsg] };
+}
+
+// An answer picked in a closed question's widget, graded against the key right away.
+// Without a closed question pending (or a key) it's recorded ungraded, like a typed answer.
+export function appendClosedAnswer(session: CheckSession, answer: ClosedAnswer, now = Date.now(), confidence?: ConfidenceLevel): CheckSession {
+  const question = pendingQuestion(session);
+  const grade = question ? gradeClosedAnswer(question, answer) : null;
+  const next = appendUserMessage(session, describeAnswer(answer, question?.question), now, confidence);
+  if (!grade) return next;
+  const messages = [...next.messages];
+  messages[messages.length - 1] = { ...messages[messages.length - 1], grade };
+  return { ...next, messages };
+}
+
+export function appendAiNotice(session: CheckSession, content: string, now = Date.now()): CheckSession {
+  return { ...session, messages: [...session.messages, { id: generateId(), role: 'ai', content, timestamp: now }] };
+}
+
+// Append the model's message and fold any topicUpdate into topicPerformances; a rubric
+// grade goes on the answer it grades, and its misconceptions into the ledger. Updates for
+// topic ids that were never extracted are dropped.
+export function applyTurn(session: CheckSession, turn: SessionTurnResponse, isFirstTurn = false, now = Date.now()): CheckSession {
+  const aiMsg: QAMessage = {
+    id: generateId(), role: 'ai', content: turn.message, topicId: turn.currentTopicId,
+    tag: isFirstTurn || !turn.isFollowUp ? 'question' : 'followup',
+    ...(turn.questionType && turn.questionType !== 'open' ? { questionType: turn.questionType, question: turn.question } : {}),
+    timestamp: now
+  };
+
+  const newPerfs = { ...session.topicPerformances };
+  if (turn.topicUpdate) {
+    const t = session.topics.find(t => t.id === turn.topicUpdate!.topicId);
+    if (t) {
+      aiMsg.rating = { topicId: t.id, status: turn.topicUpdate.status };
+      newPerfs[t.id] = { topicId: t.id, topicName: t.name, status: turn.topicUpdate.status, evidence: turn.topicUpdate.evidence, noteSection: t.noteSection, concepts: t.concepts, ...(t.sources ? { sources: t.sources } : {}) };
+    }
+  }
+
+  const messages = [...session.messages];
+  const answer = messages[messages.length - 1];
+  const modelGrade = turn.grade && session.topics.some(t => t.id === turn.grade!.topicId) ? turn.grade : undefined;
+  // A closed answer was graded from the key when it was sent; the model's grade only fills gaps
+  const question = messages[messages.length - 2];
+  const grade = answer?.grade?.auto ? mergeGrades(answer.grade, modelGrade, question?.questionType) : modelGrade;
+  if (grade && answer?.role === 'user') messages[messages.length - 1] = { ...answer, grade };
+  const misconceptions = updateMisconceptions(session.misconceptions, { ...turn, grade }, answer);
+
+  return {
+    ...session, messages: [...messages, aiMsg], topicPerformances: newPerfs,
+    ...(misconceptions.length ? { misconceptions } : {})
+  };
+}
+
+export function shouldEndAfterTurn(turn: SessionTurnResponse): boolean {
+  return turn.sessionShouldEnd && !turn.overtimeNeeded;
+}
+
+export function sessionPacing(session: Pick<CheckSession, 'pacing' | 'duration'>): SessionPacing {
+  return session.pacing ?? { kind: 'timed', minutes: session.duration };
+}
+
+export function describePacing(pacing: SessionPacing): string {
+  return pacing.kind === 'timed' ? `${pacing.minutes} min` : pacing.kind === 'questions' ? `${pacing.count} questions` : 'untimed';
+}
+
+export function answeredCount(session: CheckSession): number {
+  return session.messages.filter(m => m.role === 'user').length;
+}
+
+// How far through its pacing the session is, 0 to 1: the clock for timed sessions, answers
+// for question-count sessions, topics assessed for untimed ones
+export function sessionProgress(session: CheckSession, elapsedSeconds: number): number {
+  const pacing = sessionPacing(session);
+  const progress = pacing.kind === 'timed' ? elapsedSeconds / (pacing.minutes * 60)
+    : pacing.kind === 'questions' ? answeredCount(session) / pacing.count
+    : Object.keys(session.topicPerformances).length / session.topics.length;
+  return Number.isFinite(progress) ? Math.min(1, Math.max(0, progress)) : 0;
+}
+
+// The session's allowance is used up: the clock hit zero, or the last counted answer has
+// had its reply. Untimed sessions only end when the examiner or the student ends them.
+export function pacingExhausted(session: CheckSession, elapsedSeconds: number): boolean {
+  const pacing = sessionPacing(session);
+  if (pacing.kind === 'timed') return elapsedSeconds >= pacing.minutes * 60;
+  if (pacing.kind === 'questions') return answeredCount(session) >= pacing.count && session.messages[session.messages.length - 1]?.role === 'ai';
+  return false;
+}
+
+// What's left of the allowance, for the prompt and the session header
+export function pacingRemaining(session: CheckSession, elapsedSeconds: number): { minutes?: number; questions?: number } {
+  const pacing = sessionPacing(session);
+  if (pacing.kind === 'timed') return { minutes: Math.ceil(Math.max(0, pacing.minutes * 60 - elapsedSeconds) / 60) };
+  if (pacing.kind === 'questions') return { questions: Math.max(0, pacing.count - answeredCount(session)) };
+  return {};
+}
+
+// When the allowance runs out: extend into overtime if anything is weak or untested, otherwise finish.
+export function resolveTimeUp(session: CheckSession): 'overtime' | 'end' {
+  const hasWeakness = Object.values(session.topicPerformances).some(p => p.status === 'weak' || p.status === 'revisit');
+  const hasUntested = session.topics.some(t => !session.topicPerformances[t.id]);
+  return hasWeakness || hasUntested ? 'overtime' : 'end';
+}
+
+export function enterOvertime(session: CheckSession): CheckSession {
+  return { ...session, isOvertimeActive: true, status: 'overtime' };
+}
+
+export function isSessionPaused(session: CheckSession): boolean {
+  const last = session.pauses?.[session.pauses.length - 1];
+  return !!last && last.end === undefined;
+}
+
+export function pauseSession(session: CheckSession, reason: SessionPause['reason'], now = Date.now()): CheckSession {
+  if (isSessionPaused(session)) return session;
+  return { ...session, pauses: [...(session.pauses || []), { start: now, reason }] };
+}
+
+export function unpauseSession(session: CheckSession, now = Date.now()): CheckSession {
+  if (!isSessionPaused(session)) return session;
+  return { ...session, pauses: session.pauses!.map(p => p.end === undefined ? { ...p, end: now } : p) };
+}
+
+export function pausedMs(session: CheckSession, now = Date.now()): number {
+  return (session.pauses || []).reduce((acc, p) => acc + Math.max(0, (p.end ?? now) - p.start), 0);
+}
+
+// Wall-clock minutes from start to end, minus time spent paused
+export function activeDurationMinutes(session: CheckSession, now = Date.now()): number {
+  const end = session.endTime ?? now;
+  return Math.round(Math.max(0, end - session.startTime - pausedMs(session, end)) / 60000);
+}
+
+// Each topic's share of the session (minutes, or questions in a question-count session),
+// split by weight (priority topics count double); untimed sessions have no budget
+export function topicBudgets(session: Pick<CheckSession, 'topics' | 'duration' | 'pacing'>): Record<string, number> | null {
+  const pacing = sessionPacing(session);
+  if (pacing.kind === 'untimed') return null;
+  const allowance = pacing.kind === 'timed' ? pacing.minutes : pacing.count;
+  const total = session.topics.reduce((n, t) => n + topicWeight(t), 0) || 1;
+  return Object.fromEntries(session.topics.map(t => [t.id, Math.round(allowance * topicWeight(t) / total * 10) / 10]));
+}
+
+export function completeSession(session: CheckSession, now = Date.now()): CheckSession {
+  return { ...unpauseSession(session, now), endTime: now, status: 'complete' };
+}
+
+// Everything in a report except the topic breakdown; shared by the generated and fallback reports
+export function reportDetails(session: CheckSession, now = Date.now()): Omit<KnowledgeReport, 'topics' | 'revisitList'> {
+  return {
+    sessionId: session.id,
+    uploadId: session.uploadId,
+    noteSetId: session.noteSetId,
+    date: new Date(now).toISOString(),
+    uploadTitle: session.uploadTitle,
+    durationMinutes: session.duration,
+    actualDurationMinutes: activeDurationMinutes(session, now),
+    pacing: sessionPacing(session),
+    overtimeUsed: session.isOvertimeActive,
+    misconceptions: misconceptionOutcomes(session),
+    calibration: topicCalibration(session),
+    isReview: !!session.reviewItemIds?.length,
+    pauses: session.pauses || [],
+    pausedMinutes: Math.round(pausedMs(session, session.endTime ?? now) / 60000)
+  };
+}
+
+// Restore a checkpointed session. A pause left open by the reload is closed now, and
+// startTime is shifted so the time the tab was closed does not count toward actualDurationMinutes.
+export function resumeSession(session: CheckSession, elapsedSeconds: number, now = Date.now()): CheckSession {
+  const unpaused = unpauseSession(session, now);
+  return { ...unpaused, startTime: now - elapsedSeconds * 1000 - pausedMs(unpaused, now) };
+}
+
+// What the model still owed when the page went away: the opening question, or a reply to
+// the last answer.
+export function pendingTurn(session: CheckSession): { kind: 'opening' } | { kind: 'reply'; text: string } | null {
+  const last = session.messages[session.messages.length - 1];
+  if (!last) return { kind: 'opening' };
+  return last.role === 'user' ? { kind: 'reply', text: last.content } : null;
+}
+
+// Report built from in-session assessments alone, used when report generation fails.
+// Weak topics list the concepts their graded answers fell short on, else their first two.
+export function buildFallbackReport(session: CheckSession, now = Date.now()): KnowledgeReport {
+  const topics = attachGrading(session.topics.map(t => session.topicPerformances[t.id] || { topicId: t.id, topicName: t.name, status: 'untested' as const, evidence: 'Not covered.', concepts: t.concepts, ...(t.sources ? { sources: t.sources } : {}) }), session);
+  const details = reportDetails(session, now);
+  const revisitList = topics.filter(t => t.status === 'weak' || t.status === 'revisit').flatMap(t => {
+    const shaky = shakyConcepts(t);
+    return (shaky.length ? shaky : t.concepts.slice(0, 2)).map(c => ({ concept: c, topicName: t.topicName }));
+  });
+  return {
+    ...details,
+    topics: linkReportTopics(topics, session.topics),
+    revisitList: prioritiseRevisitList(revisitList, details.calibration || [], topics)
+  };
+}
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CheckSession, ExtractedTopic, KnowledgeReport, User } from "../types";
+import { supabase, isSupabaseConfigured } from "./supabaseClient";
+import { getStore, KeyValueStore } from "./localStore";
+import { createSyncQueue, RemoteSession, StoredReport, StudyRemote, SyncQueue, SyncResult } from "./syncQueue";
+
+// Persistence for uploads and finished sessions. History always lives in IndexedDB on the
+// device; signed-in users with a configured Supabase project also queue every write for
+// the `uploads` and `study_sessions` tables and pull history written from other devices.
+
+export interface UploadRecord {
+  id: string;
+  fileName: string;
+  title: string;
+  noteContent: string;
+  topics: ExtractedTopic[];
+  sources: { name: string; type: string; size: number }[];
+}
+
+export interface StudyRepository {
+  readonly kind: 'supabase' | 'local';
+  loadReports(): Promise<KnowledgeReport[]>;
+  saveUpload(upload: UploadRecord): Promise<void>;
+  loadUpload(id: string): Promise<UploadRecord | null>;
+  saveSession(session: CheckSession, report: KnowledgeReport): Promise<void>;
+  // Push queued writes and pull remote history; a no-op for the local repository
+  sync(options?: { force?: boolean }): Promise<SyncResult | null>;
+}
+
+// Row shapes from schema_dump2.txt
+interface UploadRow {
+  id: string;
+  user_id: string;
+  file_name: string;
+  title: string;
+  domain: string | null;
+  material: { noteContent: string; topics: ExtractedTopic[] };
+  sources: UploadRecord['sources'];
+}
+
+interface StudySessionRow {
+  id: string;
+  user_id: string;
+  topic: string;
+  score: number;
+  total: number;
+  data: { report: KnowledgeReport; session?: StoredReport['session']; updatedAt?: number };
+  created_at?: string;
+}
+
+// Rows written before sync existed carry no updatedAt; treat them as written at created_at
+function toRemoteSession(row: Pick<StudySessionRow, 'data' | 'created_at'>): RemoteSession | null {
+  const report = row.data?.report;
+  if (!report?.sessionId) return null;
+  const updatedAt = row.data.updatedAt ?? (Date.parse(row.created_at || report.date) || 0);
+  return { sessionId: report.sessionId, report, session: row.data.session, updatedAt };
+}
+
+// Takes the client so the queue can be pointed at a local Supabase stack (`supabase start`)
+// or any PostgREST in front of a Postgres with the same two tables.
+export function createSupabaseRemote(client: SupabaseClient, userId: string): StudyRemote {
+  return {
+    async pushUpload(upload) {
+      const row: UploadRow = {
+        id: upload.id,
+        user_id: userId,
+        file_name: upload.fileName,
+        title: upload.title,
+        domain: null,
+        material: { noteContent: upload.noteContent, topics: upload.topics },
+        sources: upload.sources
+      };
+      const { error } = await client.from('uploads').upsert(row);
+      if (error) throw new Error(`Saving upload failed: ${error.message}`);
+    },
+    async pushSession(record) {
+      const { report } = record;
+      const row: StudySessionRow = {
+        id: report.sessionId,
+        user_id: userId,
+        topic: report.uploadTitle,
+        score: report.topics.filter(t => t.status === 'strong').length,
+        total: report.topics.length,
+        data: { report, session: record.session, updatedAt: record.updatedAt }
+      };
+      const { error } = await client.from('study_sessions').upsert(row);
+      if (error) throw new Error(`Saving session failed: ${error.message}`);
+    },
+    async fetchSession(sessionId) {
+      const { data, error } = await client
+        .from('study_sessions')
+        .select('data, created_at')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw new Error(`Loading session failed: ${error.message}`);
+      return data ? toRemoteSession(data as StudySessionRow) : null;
+    },
+    async pullSessions() {
+      const { data, error } = await client
+        .from('study_sessions')
+        .select('data, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+      if (error) throw new Error(`Loading sessions failed: ${error.message}`);
+      return ((data ?? []) as StudySessionRow[]).map(toRemoteSession).filter((r): r is RemoteSession => !!r);
+    }
+  };
+}
+
+// Reports used to live in localStorage under this key (capped at 20). They are copied
+// into IndexedDB as signed-out history the first time the store is read, then removed.
+const LEGACY_REPORTS_KEY = 'crosscheck-reports';
+
+async function migrateLegacyReports(reports: KeyValueStore<StoredReport>) {
+  let legacy: KnowledgeReport[] = [];
+  try {
+    const raw = localStorage.getItem(LEGACY_REPORTS_KEY);
+    if (!raw) return;
+    legacy = JSON.parse(raw);
+  } catch { return; }
+  for (const report of legacy) {
+    if (!report?.sessionId || await reports.get(report.sessionId)) continue;
+    await reports.put({ sessionId: report.sessionId, userId: null, report, updatedAt: Date.parse(report.date) || 0 });
+  }
+  try { localStorage.removeItem(LEGACY_REPORTS_KEY); } catch {}
+  console.log(`[repository] migrated ${legacy.length} reports from localStorage`);
+}
+
+let migration: Promise<void> | null = null;
+
+export function createStudyRepository(user: User | null, remote?: StudyRemote): StudyRepository {
+  const reports = getStore('reports');
+  const outbox = getStore('outbox');
+  const uploads = getStore('uploads');
+  const userId = user?.id || null;
+  if (!remote && isSupabaseConfigured && userId) remote = createSupabaseRemote(supabase, userId);
+  const queue: SyncQueue | null = remote && userId ? createSyncQueue({ userId, remote, reports, outbox }) : null;
+
+  const ready = () => (migration ??= migrateLegacyReports(reports).catch(e => console.log('[repository] migration failed', e)));
+
+  return {
+    kind: queue ? 'supabase' : 'local',
+    async loadReports() {
+      await ready();
+      // Signed out sees only signed-out history; signed in also sees its own synced sessions
+      return (await reports.getAll())
+        .filter(r => r.userId === null || r.userId === userId)
+        .map(r => r.report)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+    async saveUpload(upload) {
+      // Kept on the device so review sessions can be run against the same notes later
+      await uploads.put(upload);
+      if (!queue) return;
+      await queue.enqueue('upload', upload.id, upload);
+      queue.flush().catch(() => {});
+    },
+    async loadUpload(id) {
+      return (await uploads.get(id)) ?? null;
+    },
+    async saveSession(session, report) {
+      const { noteContent: _notes, report: _report, ...transcript } = session;
+      await reports.put({ sessionId: report.sessionId, userId, report, session: transcript, updatedAt: Date.now() });
+      if (!queue) return;
+      await queue.enqueue('session', report.sessionId);
+      queue.flush().catch(() => {});
+    },
+    async sync(options) {
+      if (!queue) return null;
+      await ready();
+      return queue.flush(options);
+    }
+  };
+}
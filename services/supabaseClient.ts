@@ -12,7 +12,9 @@ const isValidUrl = (url: string) => {
     }
 };
 
-export const supabase = isValidUrl(supabaseUrl)
+export const isSupabaseConfigured = !!isValidUrl(supabaseUrl);
+
+export const supabase = isSupabaseConfigured
     ? createClient(supabaseUrl, supabaseAnonKey)
     : {
         from: () => ({
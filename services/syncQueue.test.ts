@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { KnowledgeReport } from "../types";
+import { memoryStore } from "./localStore";
+import { backoffDelay, createSyncQueue, OutboxEntry, RemoteSession, StoredReport, StudyRemote } from "./syncQueue";
+import type { UploadRecord } from "./studyRepository";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const USER = 'user-1';
+
+function report(sessionId: string, uploadTitle = 'Cardiac Physiology'): KnowledgeReport {
+  return {
+    sessionId, date: '2026-01-01T09:00:00.000Z', uploadTitle,
+    durationMinutes: 15, actualDurationMinutes: 15, topics: [], revisitList: [], overtimeUsed: false
+  };
+}
+
+// Stand-in for the Supabase tables: sessions by sessionId, plus a switch to fail pushes
+function memoryRemote() {
+  const sessions = new Map<string, RemoteSession>();
+  const uploads: UploadRecord[] = [];
+  const state = { failPushes: 0, pushes: 0 };
+  const remote: StudyRemote = {
+    async pushUpload(upload) { uploads.push(upload); },
+    async pushSession(record) {
+      state.pushes++;
+      if (state.failPushes > 0) { state.failPushes--; throw new Error('network down'); }
+      sessions.set(record.sessionId, { sessionId: record.sessionId, report: record.report, session: record.session, updatedAt: record.updatedAt });
+    },
+    async fetchSession(sessionId) { return sessions.get(sessionId) ?? null; },
+    async pullSessions() { return [...sessions.values()]; }
+  };
+  return { remote, sessions, uploads, state };
+}
+
+function setup() {
+  let clock = 1_000_000;
+  const server = memoryRemote();
+  const reports = memoryStore<StoredReport>('sessionId');
+  const outbox = memoryStore<OutboxEntry>('id');
+  const queue = createSyncQueue({ userId: USER, remote: server.remote, reports, outbox, now: () => clock });
+  const save = async (sessionId: string, title?: string) => {
+    await reports.put({ sessionId, userId: USER, report: report(sessionId, title), updatedAt: clock });
+    await queue.enqueue('session', sessionId);
+  };
+  return { server, reports, outbox, queue, save, tick: (ms: number) => { clock += ms; }, now: () => clock };
+}
+
+describe('backoffDelay', () => {
+  it('doubles from five seconds and caps at ten minutes', () => {
+    expect([1, 2, 3, 4].map(backoffDelay)).toEqual([5000, 10000, 20000, 40000]);
+    expect(backoffDelay(20)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe('createSyncQueue', () => {
+  it('backs off after a failed push and retries once the delay has passed', async () => {
+    const { server, outbox, queue, save, tick, now } = setup();
+    server.state.failPushes = 1;
+    await save('s1');
+
+    const first = await queue.flush();
+    expect(first).toMatchObject({ pushed: 0, failed: 1, pending: 1 });
+    const [entry] = await outbox.getAll();
+    expect(entry).toMatchObject({ attempts: 1, lastError: 'network down', nextAttemptAt: now() + backoffDelay(1) });
+
+    // Not due yet: nothing is attempted
+    tick(backoffDelay(1) - 1);
+    expect(await queue.flush()).toMatchObject({ pushed: 0, failed: 0, pending: 1 });
+    expect(server.state.pushes).toBe(1);
+
+    tick(1);
+    expect(await queue.flush()).toMatchObject({ pushed: 1, failed: 0, pending: 0 });
+    expect(server.sessions.get('s1')?.report.sessionId).toBe('s1');
+  });
+
+  it('keeps retrying with a longer delay each time, and force ignores the delay', async () => {
+    const { server, outbox, queue, save, now } = setup();
+    server.state.failPushes = 3;
+    await save('s1');
+
+    await queue.flush();
+    await queue.flush({ force: true });
+    await queue.flush({ force: true });
+    const [entry] = await outbox.getAll();
+    expect(entry.attempts).toBe(3);
+    expect(entry.nextAttemptAt).toBe(now() + backoffDelay(3));
+
+    expect(await queue.flush({ force: true })).toMatchObject({ pushed: 1, pending: 0 });
+  });
+
+  it('adopts the remote copy when it is newer than the queued local one', async () => {
+    const { server, reports, queue, save, tick } = setup();
+    await save('s1', 'Local title');
+    tick(1000);
+    server.sessions.set('s1', { sessionId: 's1', report: report('s1', 'Remote title'), updatedAt: 1_000_500 });
+
+    const result = await queue.flush();
+    expect(result).toMatchObject({ pushed: 0, conflicts: 1, pending: 0 });
+    expect(server.state.pushes).toBe(0);
+    expect((await reports.get('s1'))?.report.uploadTitle).toBe('Remote title');
+  });
+
+  it('pushes the local copy over an older remote one', async () => {
+    const { server, reports, queue, save, tick } = setup();
+    server.sessions.set('s1', { sessionId: 's1', report: report('s1', 'Remote title'), updatedAt: 999_000 });
+    await save('s1', 'Local title');
+    tick(1000);
+
+    const result = await queue.flush();
+    expect(result).toMatchObject({ pushed: 1, conflicts: 0, pulled: 0, pending: 0 });
+    expect(server.sessions.get('s1')?.report.uploadTitle).toBe('Local title');
+    expect((await reports.get('s1'))?.report.uploadTitle).toBe('Local title');
+  });
+
+  it('merges pulled sessions by updatedAt and drops queued writes a newer remote copy replaced', async () => {
+    const { server, reports, outbox, queue, save } = setup();
+    await save('queued', 'Local queued');
+    await reports.put({ sessionId: 'stale', userId: USER, report: report('stale', 'Local stale'), updatedAt: 500 });
+    await reports.put({ sessionId: 'fresh', userId: USER, report: report('fresh', 'Local fresh'), updatedAt: 2_000_000 });
+    server.sessions.set('queued', { sessionId: 'queued', report: report('queued', 'Remote queued'), updatedAt: 1_500_000 });
+    server.sessions.set('stale', { sessionId: 'stale', report: report('stale', 'Remote stale'), updatedAt: 900 });
+    server.sessions.set('fresh', { sessionId: 'fresh', report: report('fresh', 'Remote fresh'), updatedAt: 1_000 });
+    server.sessions.set('new', { sessionId: 'new', report: report('new', 'Remote only'), updatedAt: 1_000 });
+
+    // The queued session meets a newer remote copy on push, so it is adopted there
+    const result = await queue.flush();
+    expect(result).toMatchObject({ conflicts: 1, pulled: 2, pending: 0 });
+    expect(await outbox.getAll()).toEqual([]);
+
+    const titles = Object.fromEntries((await reports.getAll()).map(r => [r.sessionId, r.report.uploadTitle]));
+    expect(titles).toEqual({ queued: 'Remote queued', stale: 'Remote stale', fresh: 'Local fresh', new: 'Remote only' });
+    expect((await reports.get('new'))?.userId).toBe(USER);
+  });
+
+  it('resolves a queued write against a newer remote copy found on pull', async () => {
+    const { server, reports, outbox, queue, save, tick } = setup();
+    await save('s1', 'Local title');
+    // Still backing off from an earlier failure, so this flush only pulls
+    const [entry] = await outbox.getAll();
+    await outbox.put({ ...entry, attempts: 1, nextAttemptAt: 1_000_000 + backoffDelay(1) });
+    tick(1000);
+    server.sessions.set('s1', { sessionId: 's1', report: report('s1', 'Remote title'), updatedAt: 1_000_500 });
+
+    const result = await queue.flush();
+    expect(result).toMatchObject({ pushed: 0, pulled: 1, conflicts: 1, pending: 0 });
+    expect((await reports.get('s1'))?.report.uploadTitle).toBe('Remote title');
+  });
+
+  it('pushes uploads before sessions', async () => {
+    const { server, queue, save } = setup();
+    const order: string[] = [];
+    const pushUpload = server.remote.pushUpload;
+    const pushSession = server.remote.pushSession;
+    server.remote.pushUpload = async u => { order.push(`upload:${u.id}`); await pushUpload(u); };
+    server.remote.pushSession = async r => { order.push(`session:${r.sessionId}`); await pushSession(r); };
+
+    await save('s1');
+    await queue.enqueue('upload', 'u1', { id: 'u1', fileName: 'notes.md', title: 'Notes', noteContent: '', topics: [], sources: [] });
+    await queue.flush();
+    expect(order).toEqual(['upload:u1', 'session:s1']);
+  });
+});
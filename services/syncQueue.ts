@@ -0,0 +1,159 @@
+import { CheckSession, KnowledgeReport } from "../types";
+import type { KeyValueStore } from "./localStore";
+import type { UploadRecord } from "./studyRepository";
+
+// Offline-first sync. Every write lands in the local store first and is queued in an
+// outbox; flush() pushes the outbox to the remote with exponential backoff, then pulls
+// the remote history back. Both sides are keyed by sessionId and the newer updatedAt wins.
+
+export type SessionTranscript = Omit<CheckSession, 'noteContent' | 'report'>;
+
+export interface StoredReport {
+  sessionId: string;
+  // null for reports saved while signed out; these never leave the device
+  userId: string | null;
+  report: KnowledgeReport;
+  session?: SessionTranscript;
+  updatedAt: number;
+}
+
+export interface OutboxEntry {
+  // `${kind}:${key}` so repeated writes of the same upload or session coalesce
+  id: string;
+  kind: 'upload' | 'session';
+  key: string;
+  userId: string;
+  upload?: UploadRecord;
+  updatedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface RemoteSession {
+  sessionId: string;
+  report: KnowledgeReport;
+  session?: SessionTranscript;
+  updatedAt: number;
+}
+
+// Anything that can hold a user's uploads and sessions: Supabase in production, a local
+// Supabase/Postgres stack or an in-memory map when exercising the queue.
+export interface StudyRemote {
+  pushUpload(upload: UploadRecord): Promise<void>;
+  pushSession(record: StoredReport): Promise<void>;
+  fetchSession(sessionId: string): Promise<RemoteSession | null>;
+  pullSessions(): Promise<RemoteSession[]>;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  failed: number;
+  pending: number;
+}
+
+export interface SyncQueue {
+  enqueue(kind: OutboxEntry['kind'], key: string, upload?: UploadRecord): Promise<void>;
+  flush(options?: { force?: boolean }): Promise<SyncResult>;
+  pending(): Promise<OutboxEntry[]>;
+}
+
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export function createSyncQueue(params: {
+  userId: string;
+  remote: StudyRemote;
+  reports: KeyValueStore<StoredReport>;
+  outbox: KeyValueStore<OutboxEntry>;
+  now?: () => number;
+}): SyncQueue {
+  const { userId, remote, reports, outbox } = params;
+  const now = params.now ?? Date.now;
+  let inFlight: Promise<SyncResult> | null = null;
+
+  const adopt = (r: RemoteSession) => reports.put({ ...r, userId });
+
+  // Returns 'conflict' when the remote already holds a newer copy of the session
+  const pushEntry = async (entry: OutboxEntry): Promise<'pushed' | 'conflict'> => {
+    if (entry.kind === 'upload') {
+      if (entry.upload) await remote.pushUpload(entry.upload);
+      return 'pushed';
+    }
+    const local = await reports.get(entry.key);
+    if (!local) return 'pushed';
+    const existing = await remote.fetchSession(entry.key);
+    if (existing && existing.updatedAt > local.updatedAt) {
+      await adopt(existing);
+      return 'conflict';
+    }
+    await remote.pushSession({ ...local, userId });
+    return 'pushed';
+  };
+
+  const run = async (force: boolean): Promise<SyncResult> => {
+    const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0, failed: 0, pending: 0 };
+
+    // Uploads first so a session never lands before the notes it was built from
+    const due = (await outbox.getAll())
+      .filter(e => e.userId === userId && (force || e.nextAttemptAt <= now()))
+      .sort((a, b) => (a.kind === b.kind ? a.updatedAt - b.updatedAt : a.kind === 'upload' ? -1 : 1));
+
+    for (const entry of due) {
+      try {
+        const outcome = await pushEntry(entry);
+        // A newer write may have replaced the entry while the push was in flight
+        const current = await outbox.get(entry.id);
+        if (current && current.updatedAt === entry.updatedAt) await outbox.delete(entry.id);
+        if (outcome === 'conflict') result.conflicts++; else result.pushed++;
+      } catch (e: any) {
+        const attempts = entry.attempts + 1;
+        console.log(`[sync] ${entry.id} failed (attempt ${attempts}): ${e?.message || e}`);
+        await outbox.put({ ...entry, attempts, nextAttemptAt: now() + backoffDelay(attempts), lastError: e?.message || String(e) });
+        result.failed++;
+      }
+    }
+
+    try {
+      const pendingIds = new Set((await outbox.getAll()).filter(e => e.kind === 'session').map(e => e.key));
+      for (const r of await remote.pullSessions()) {
+        const local = await reports.get(r.sessionId);
+        if (local && local.updatedAt >= r.updatedAt) continue;
+        // A queued local write loses to a newer remote copy of the same session
+        if (pendingIds.has(r.sessionId)) {
+          await outbox.delete(`session:${r.sessionId}`);
+          result.conflicts++;
+        }
+        await adopt(r);
+        result.pulled++;
+      }
+    } catch (e: any) {
+      console.log(`[sync] pull failed: ${e?.message || e}`);
+      result.failed++;
+    }
+
+    result.pending = (await outbox.getAll()).filter(e => e.userId === userId).length;
+    return result;
+  };
+
+  return {
+    async enqueue(kind, key, upload) {
+      const id = `${kind}:${key}`;
+      await outbox.put({ id, kind, key, userId, upload, updatedAt: now(), attempts: 0, nextAttemptAt: 0 });
+    },
+    flush(options) {
+      // Overlapping flushes (online event + interval + save) share one pass
+      if (!inFlight) inFlight = run(!!options?.force).finally(() => { inFlight = null; });
+      return inFlight;
+    },
+    async pending() {
+      return (await outbox.getAll()).filter(e => e.userId === userId);
+    }
+  };
+}
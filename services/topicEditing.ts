@@ -0,0 +1,116 @@
+import { ExtractedTopic } from "../types";
+import { slugify } from "./responseSchemas";
+import { cleanPrerequisites, remapPrerequisites } from "./topicGraph";
+
+// Edits to the extracted topic list before a session starts. Every operation returns a
+// new list; ids survive renames and reorders so history and review decks still line up,
+// and new topics get a fresh id derived from their name.
+
+function freshId(name: string, topics: ExtractedTopic[]): string {
+  const base = slugify(name) || 'topic';
+  let id = base;
+  for (let n = 2; topics.some(t => t.id === id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+function update(topics: ExtractedTopic[], id: string, change: (t: ExtractedTopic) => ExtractedTopic): ExtractedTopic[] {
+  return topics.map(t => t.id === id ? change(t) : t);
+}
+
+function uniqueConcepts(concepts: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const c of concepts.map(c => c.trim())) {
+    if (!c || seen.has(c.toLowerCase())) continue;
+    seen.add(c.toLowerCase());
+    unique.push(c);
+  }
+  return unique;
+}
+
+export function renameTopic(topics: ExtractedTopic[], id: string, name: string): ExtractedTopic[] {
+  return name.trim() ? update(topics, id, t => ({ ...t, name: name.trim() })) : topics;
+}
+
+export function addTopic(topics: ExtractedTopic[], name: string): ExtractedTopic[] {
+  if (!name.trim()) return topics;
+  return [...topics, { id: freshId(name, topics), name: name.trim(), concepts: [] }];
+}
+
+export function deleteTopic(topics: ExtractedTopic[], id: string): ExtractedTopic[] {
+  return cleanPrerequisites(topics.filter(t => t.id !== id));
+}
+
+export function moveTopic(topics: ExtractedTopic[], id: string, offset: number): ExtractedTopic[] {
+  const from = topics.findIndex(t => t.id === id);
+  const to = Math.max(0, Math.min(topics.length - 1, from + offset));
+  if (from < 0 || from === to) return topics;
+  const next = [...topics];
+  next.splice(to, 0, next.splice(from, 1)[0]);
+  return next;
+}
+
+// The first selected topic (in list order) absorbs the others' concepts, sources and
+// prerequisites; edges to the absorbed topics now point at it
+export function mergeTopics(topics: ExtractedTopic[], ids: string[]): ExtractedTopic[] {
+  const selected = topics.filter(t => ids.includes(t.id));
+  if (selected.length < 2) return topics;
+  const [target, ...rest] = selected;
+  const sources = [...new Set(selected.flatMap(t => t.sources || []))];
+  const prerequisites = selected.flatMap(t => t.prerequisites || []);
+  const merged: ExtractedTopic = {
+    ...target,
+    concepts: uniqueConcepts(selected.flatMap(t => t.concepts)),
+    noteSection: target.noteSection ?? rest.find(t => t.noteSection)?.noteSection,
+    priority: selected.some(t => t.priority) || undefined,
+    ...(sources.length ? { sources } : {}),
+    ...(prerequisites.length ? { prerequisites } : {})
+  };
+  const next = topics.filter(t => !rest.includes(t)).map(t => t === target ? merged : t);
+  return cleanPrerequisites(remapPrerequisites(next, new Map(rest.map(t => [t.id, target.id]))));
+}
+
+// Move the chosen concepts into a new topic placed right after the original; it builds on
+// the same prerequisites
+export function splitTopic(topics: ExtractedTopic[], id: string, concepts: string[], name: string): ExtractedTopic[] {
+  const index = topics.findIndex(t => t.id === id);
+  const original = topics[index];
+  if (!original || !concepts.length || !name.trim()) return topics;
+  const split: ExtractedTopic = {
+    id: freshId(name, topics),
+    name: name.trim(),
+    concepts: original.concepts.filter(c => concepts.includes(c)),
+    noteSection: original.noteSection,
+    ...(original.subject ? { subject: original.subject } : {}),
+    ...(original.sources ? { sources: original.sources } : {}),
+    ...(original.prerequisites ? { prerequisites: original.prerequisites } : {})
+  };
+  const next = [...topics];
+  next.splice(index, 1, { ...original, concepts: original.concepts.filter(c => !concepts.includes(c)) }, split);
+  return next;
+}
+
+export function setConcepts(topics: ExtractedTopic[], id: string, concepts: string[]): ExtractedTopic[] {
+  return update(topics, id, t => ({ ...t, concepts: uniqueConcepts(concepts) }));
+}
+
+// Priority and excluded are exclusive: excluding a topic clears its priority and vice versa
+export function togglePriority(topics: ExtractedTopic[], id: string): ExtractedTopic[] {
+  return update(topics, id, t => ({ ...t, priority: !t.priority || undefined, excluded: undefined }));
+}
+
+export function toggleExcluded(topics: ExtractedTopic[], id: string): ExtractedTopic[] {
+  return update(topics, id, t => ({ ...t, excluded: !t.excluded || undefined, priority: undefined }));
+}
+
+// What the session audits: excluded topics dropped (with edges to them), order as edited
+export function sessionTopics(topics: ExtractedTopic[]): ExtractedTopic[] {
+  return cleanPrerequisites(topics.filter(t => !t.excluded));
+}
+
+// Priority topics get twice the share of session time
+export const PRIORITY_WEIGHT = 2;
+
+export function topicWeight(topic: ExtractedTopic): number {
+  return topic.priority ? PRIORITY_WEIGHT : 1;
+}
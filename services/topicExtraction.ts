@@ -0,0 +1,157 @@
+import { ExtractedTopic } from "../types";
+import { matchTopic } from "./noteIdentity";
+import { slugify } from "./responseSchemas";
+import { cleanPrerequisites, remapPrerequisites } from "./topicGraph";
+
+// Map-reduce topic extraction for notes too long for one prompt. Notes are cut into
+// chunks along section markers; each chunk is extracted on its own (map), then candidate
+// topics are merged — first by name/concept overlap, then, if there are still too many,
+// by asking the model to group them under broader topics (reduce).
+
+// Roughly 6k input tokens per chunk, leaving room for the prompt and a full topic list
+export const CHUNK_CHARS = 24000;
+// Above this many merged topics the model is asked to consolidate them
+export const MAX_TOPICS = 16;
+// Concepts kept per merged topic; later chunks tend to repeat the same ones in other words
+const MAX_CONCEPTS = 20;
+
+export interface NoteChunk {
+  index: number;
+  text: string;
+}
+
+export interface ExtractionProgress {
+  stage: 'map' | 'reduce';
+  done: number;
+  total: number;
+}
+
+const MARKER_LINE = /^\[\[.+\]\]$/;
+
+// Sections (marker line plus its text), or paragraphs when the notes carry no markers
+function units(noteContent: string): string[] {
+  const lines = noteContent.split('\n');
+  if (!lines.some(l => MARKER_LINE.test(l.trim()))) return noteContent.split(/\n{2,}/);
+  const sections: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (MARKER_LINE.test(line.trim()) && current.some(l => l.trim())) { sections.push(current.join('\n')); current = []; }
+    current.push(line);
+  }
+  if (current.some(l => l.trim())) sections.push(current.join('\n'));
+  return sections;
+}
+
+// Oversized sections are split by paragraph (then hard-wrapped at whitespace); every
+// piece after the first repeats the marker so topics in it can still cite the section
+function splitUnit(unit: string, maxChars: number): string[] {
+  if (unit.length <= maxChars) return [unit];
+  const first = unit.split('\n')[0].trim();
+  const marker = MARKER_LINE.test(first) ? first : '';
+  const body = marker ? unit.slice(unit.indexOf('\n') + 1) : unit;
+  const room = maxChars - marker.length - 1;
+  const pieces: string[] = [];
+  let piece = '';
+  const paragraphs = body.split(/\n{2,}/).flatMap(p => {
+    const parts: string[] = [];
+    while (p.length > room) {
+      const cut = p.lastIndexOf(' ', room) > room / 2 ? p.lastIndexOf(' ', room) : room;
+      parts.push(p.slice(0, cut));
+      p = p.slice(cut).trimStart();
+    }
+    return [...parts, p];
+  });
+  for (const p of paragraphs) {
+    if (piece && piece.length + p.length + 2 > room) { pieces.push(piece); piece = ''; }
+    piece += (piece ? '\n\n' : '') + p;
+  }
+  if (piece) pieces.push(piece);
+  return pieces.map(p => marker ? `${marker}\n${p}` : p);
+}
+
+export function chunkNotes(noteContent: string, maxChars = CHUNK_CHARS): NoteChunk[] {
+  if (noteContent.length <= maxChars) return [{ index: 0, text: noteContent }];
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units(noteContent).flatMap(u => splitUnit(u, maxChars))) {
+    if (current && current.length + unit.length + 2 > maxChars) { chunks.push(current); current = ''; }
+    current += (current ? '\n\n' : '') + unit;
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks.map((text, index) => ({ index, text }));
+}
+
+function mergeConcepts(a: string[], b: string[]): string[] {
+  const seen = new Set(a.map(slugify));
+  const merged = [...a];
+  for (const c of b) {
+    if (seen.has(slugify(c))) continue;
+    seen.add(slugify(c));
+    merged.push(c);
+  }
+  return merged;
+}
+
+function uniqueId(id: string, topics: ExtractedTopic[]): string {
+  let unique = id;
+  for (let n = 2; topics.some(t => t.id === unique); n++) unique = `${id}_${n}`;
+  return unique;
+}
+
+// Candidates from different chunks that name the same topic (same id or name, or enough
+// shared words) become one topic; concepts and prerequisites are unioned, the earliest
+// section and subject are kept
+export function mergeCandidateTopics(candidates: ExtractedTopic[]): ExtractedTopic[] {
+  const merged: ExtractedTopic[] = [];
+  const idMap = new Map<string, string>();
+  for (const candidate of candidates) {
+    const match = matchTopic(candidate, merged);
+    if (match) {
+      match.concepts = mergeConcepts(match.concepts, candidate.concepts);
+      match.noteSection ??= candidate.noteSection;
+      match.subject ??= candidate.subject;
+      if (candidate.prerequisites) match.prerequisites = [...(match.prerequisites || []), ...candidate.prerequisites];
+      if (!idMap.has(candidate.id)) idMap.set(candidate.id, match.id);
+    } else {
+      const id = uniqueId(candidate.id, merged);
+      merged.push({ ...candidate, id, concepts: [...candidate.concepts] });
+      if (!idMap.has(candidate.id)) idMap.set(candidate.id, id);
+    }
+  }
+  return cleanPrerequisites(remapPrerequisites(merged, idMap)).map(t => ({ ...t, concepts: t.concepts.slice(0, MAX_CONCEPTS) }));
+}
+
+export interface TopicGroup {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+// Build the consolidated list from the model's grouping. Candidates it left out keep
+// their own topic, so nothing in the notes drops out of the audit. A group inherits its
+// members' prerequisites; edges between members of the same group disappear.
+export function applyTopicGroups(candidates: ExtractedTopic[], groups: TopicGroup[]): ExtractedTopic[] {
+  const claimed = new Set<string>();
+  const topics: ExtractedTopic[] = [];
+  const idMap = new Map<string, string>();
+  for (const group of groups) {
+    const members = group.memberIds.map(id => candidates.find(c => c.id === id)).filter((c): c is ExtractedTopic => !!c && !claimed.has(c.id));
+    if (!members.length) continue;
+    members.forEach(m => claimed.add(m.id));
+    // A single-member group is a rename at most; keep the subtopic names as concepts otherwise
+    const concepts = members.length === 1
+      ? members[0].concepts
+      : members.reduce<string[]>((all, m) => mergeConcepts(all, [m.name, ...m.concepts.slice(0, 3)]), []);
+    const id = uniqueId(group.id, topics);
+    const prerequisites = members.flatMap(m => m.prerequisites || []);
+    const subject = members.find(m => m.subject)?.subject;
+    topics.push({ id, name: group.name, concepts: concepts.slice(0, MAX_CONCEPTS), noteSection: members.find(m => m.noteSection)?.noteSection, ...(subject ? { subject } : {}), ...(prerequisites.length ? { prerequisites } : {}) });
+    members.forEach(m => idMap.set(m.id, id));
+  }
+  candidates.filter(c => !claimed.has(c.id)).forEach(c => {
+    const id = uniqueId(c.id, topics);
+    topics.push({ ...c, id });
+    idMap.set(c.id, id);
+  });
+  return cleanPrerequisites(remapPrerequisites(topics, idMap));
+}
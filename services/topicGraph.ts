@@ -0,0 +1,113 @@
+import { ExtractedTopic, TopicPerformance } from "../types";
+
+// The shape of the notes beyond a flat list: topics grouped under subjects, with
+// prerequisite edges between them ("Cardiac output" builds on "Heart anatomy"). Sessions
+// audit foundations first, and the report points at a weak prerequisite when a topic
+// that depends on it comes out weak too.
+
+type GraphNode = Pick<ExtractedTopic, 'id' | 'prerequisites'>;
+
+// Rewrite prerequisite ids after topics were renumbered or merged (old id → new id)
+export function remapPrerequisites<T extends GraphNode>(topics: T[], idMap: Map<string, string>): T[] {
+  return topics.map(t => t.prerequisites
+    ? { ...t, prerequisites: [...new Set(t.prerequisites.map(p => idMap.get(p) ?? p))].filter(p => p !== t.id) }
+    : t);
+}
+
+// Keep only edges to topics in the list, once each, and drop any edge that would close a
+// cycle (earlier topics win) so the graph always has an order
+export function cleanPrerequisites<T extends GraphNode>(topics: T[]): T[] {
+  const ids = new Set(topics.map(t => t.id));
+  const edges = new Map<string, string[]>();
+  const reaches = (from: string, to: string, seen = new Set<string>()): boolean => {
+    if (from === to) return true;
+    if (seen.has(from)) return false;
+    seen.add(from);
+    return (edges.get(from) || []).some(p => reaches(p, to, seen));
+  };
+  for (const t of topics) {
+    const kept: string[] = [];
+    for (const p of t.prerequisites || []) {
+      if (!ids.has(p) || p === t.id || kept.includes(p) || reaches(p, t.id)) continue;
+      kept.push(p);
+    }
+    if (kept.length) edges.set(t.id, kept);
+  }
+  return topics.map(t => {
+    const kept = edges.get(t.id);
+    if (!t.prerequisites) return t;
+    const { prerequisites, ...rest } = t;
+    return (kept?.length ? { ...rest, prerequisites: kept } : rest) as T;
+  });
+}
+
+// Stable topological order: the listed order, except a topic never comes before one it builds on
+export function foundationsFirst<T extends GraphNode>(topics: T[]): T[] {
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+  const visiting = new Set<string>();
+  const place = (t: T) => {
+    if (placed.has(t.id) || visiting.has(t.id)) return;
+    visiting.add(t.id);
+    for (const p of t.prerequisites || []) {
+      const prerequisite = topics.find(x => x.id === p);
+      if (prerequisite) place(prerequisite);
+    }
+    visiting.delete(t.id);
+    placed.add(t.id);
+    ordered.push(t);
+  };
+  topics.forEach(place);
+  return ordered;
+}
+
+// Length of the longest prerequisite chain under each topic; foundations are 0
+export function topicDepths(topics: GraphNode[]): Record<string, number> {
+  const depths: Record<string, number> = {};
+  for (const t of foundationsFirst(topics)) {
+    depths[t.id] = Math.max(-1, ...(t.prerequisites || []).map(p => depths[p] ?? -1)) + 1;
+  }
+  return depths;
+}
+
+export function hasPrerequisites(topics: GraphNode[]): boolean {
+  return topics.some(t => t.prerequisites?.length);
+}
+
+export interface SubjectGroup<T> {
+  subject: string;
+  topics: T[];
+}
+
+// Topics under their subject, subjects in order of first appearance; topics without a
+// subject form a group with an empty name
+export function subjectGroups<T extends { subject?: string }>(topics: T[]): SubjectGroup<T>[] {
+  const groups: SubjectGroup<T>[] = [];
+  for (const t of topics) {
+    const subject = t.subject || '';
+    let group = groups.find(g => g.subject === subject);
+    if (!group) groups.push(group = { subject, topics: [] });
+    group.topics.push(t);
+  }
+  return groups;
+}
+
+const isWeak = (p?: TopicPerformance) => p?.status === 'weak' || p?.status === 'revisit';
+
+// Carry subject and prerequisites into the report, and name the weak prerequisites of each
+// weak topic: the gap may be in the foundation rather than the topic itself
+export function linkReportTopics(performances: TopicPerformance[], topics: ExtractedTopic[]): TopicPerformance[] {
+  return performances.map(perf => {
+    const topic = topics.find(t => t.id === perf.topicId);
+    if (!topic || (!topic.subject && !topic.prerequisites?.length)) return perf;
+    const weakPrerequisites = isWeak(perf)
+      ? (topic.prerequisites || []).map(id => performances.find(p => p.topicId === id)).filter(isWeak).map(p => p!.topicName)
+      : [];
+    return {
+      ...perf,
+      ...(topic.subject ? { subject: topic.subject } : {}),
+      ...(topic.prerequisites?.length ? { prerequisites: topic.prerequisites } : {}),
+      ...(weakPrerequisites.length ? { weakPrerequisites } : {})
+    };
+  });
+}
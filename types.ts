@@ -6,7 +6,17 @@ export interface User {
   joinedAt: string;
 }
 
-export type SessionDuration = 15 | 30 | 45 | 60;
+// Planned minutes of a timed session; any whole number, 0 when the session isn't timed
+export type SessionDuration = number;
+
+// How a session is paced and when it ends: a clock of any length, no clock (it ends once
+// every topic is assessed), or a fixed number of answers
+export type SessionPacing =
+  | { kind: 'timed'; minutes: SessionDuration }
+  | { kind: 'untimed' }
+  | { kind: 'questions'; count: number };
+
+export type SessionMode = 'friend' | 'tutor' | 'instructor' | 'examiner';
 export type TopicStatus = 'strong' | 'weak' | 'revisit' | 'untested';
 
 export interface ExtractedTopic {
@@ -14,17 +24,117 @@ export interface ExtractedTopic {
   name: string;
   concepts: string[];
   noteSection?: string;
+  // Broad subject the topic sits under (subject → topic → concept)
+  subject?: string;
+  // Ids of topics that must be understood first
+  prerequisites?: string[];
+  // File names this topic appears in, for notes merged from several uploads
+  sources?: string[];
+  // Set in setup: priority topics get more session time, excluded ones aren't audited
+  priority?: boolean;
+  excluded?: boolean;
+}
+
+// 0 = wrong or missing, 1 = partly there, 2 = fully there
+export type RubricScore = 0 | 1 | 2;
+
+// How sure the student was of an answer, from 1 (guessing) to 4 (certain)
+export type ConfidenceLevel = 1 | 2 | 3 | 4;
+
+// How one answer measured up against its topic, graded by the examiner's next reply or,
+// for closed question formats, from the answer key as soon as it is sent
+export interface AnswerGrade {
+  topicId: string;
+  // Graded locally from the answer key
+  auto?: boolean;
+  accuracy: RubricScore;
+  completeness: RubricScore;
+  reasoning: RubricScore;
+  // The topic's concepts the answer touched, each scored on its own
+  concepts: { concept: string; score: RubricScore }[];
+  // Wrong ideas the answer stated, one sentence each
+  misconceptions: string[];
+}
+
+// Where correcting a misconception has got to. Open stages name what the examiner's next
+// reply does: explain it and have the student contrast it with the correct idea, re-check
+// with a fresh question, then judge the re-check answer.
+export type MisconceptionStage = 'explain' | 'recheck' | 'verdict' | 'resolved' | 'unresolved';
+
+// A wrong idea the student stated, from the rubric grade on their answer
+export interface Misconception {
+  id: string;
+  topicId: string;
+  statement: string;
+  // The answer it was stated in
+  messageId: string;
+  stage: MisconceptionStage;
+}
+
+// Open questions are answered in free text. mcq, true_false, fill_blank and ordering are
+// closed and graded locally; true/false also asks for a justification, which the examiner
+// grades. diagram shows a text diagram to explain in free text.
+export type QuestionType = 'open' | 'mcq' | 'true_false' | 'fill_blank' | 'ordering' | 'diagram';
+
+// What a non-open question needs beyond its text, answer key included
+export interface QuestionSpec {
+  // The topic concept the question targets, if it names one
+  concept?: string;
+  // mcq: the choices; ordering: the items in their correct order (shown shuffled)
+  options?: string[];
+  // mcq: index of the correct choice
+  answerIndex?: number;
+  // true_false: whether the statement is true
+  answerTrue?: boolean;
+  // fill_blank: accepted answers for the blank
+  accepted?: string[];
+  // diagram: plain-text diagram to explain
+  diagram?: string;
 }
 
+// A student's answer to a closed question, as picked in its input widget
+export type ClosedAnswer =
+  | { kind: 'mcq'; index: number }
+  | { kind: 'true_false'; value: boolean; justification: string }
+  | { kind: 'fill_blank'; text: string }
+  | { kind: 'ordering'; order: string[] };
+
 export interface QAMessage {
   id: string;
   role: 'ai' | 'user';
   content: string;
   topicId?: string;
   tag?: 'question' | 'followup';
+  // On AI messages: the question's format; missing means open
+  questionType?: QuestionType;
+  question?: QuestionSpec;
+  // On AI messages: the rating this reply gave the answer before it, if any
+  rating?: { topicId: string; status: Exclude<TopicStatus, 'untested'> };
+  // On user messages: the rubric grade the reply gave this answer
+  grade?: AnswerGrade;
+  // On user messages: how sure the student said they were
+  confidence?: ConfidenceLevel;
   timestamp: number;
 }
 
+export interface ConceptMastery {
+  concept: string;
+  status: TopicStatus;
+  // Mean score (0–1) over the concept's most recent graded answers
+  score: number;
+  answers: number;
+}
+
+// Rubric grades for a topic's answers, averaged
+export interface RubricSummary {
+  answers: number;
+  // Means on the 0–2 rubric scale
+  accuracy: number;
+  completeness: number;
+  reasoning: number;
+  misconceptions: string[];
+}
+
 export interface TopicPerformance {
   topicId: string;
   topicName: string;
@@ -32,49 +142,178 @@ export interface TopicPerformance {
   evidence: string;
   noteSection?: string;
   concepts: string[];
+  sources?: string[];
+  subject?: string;
+  prerequisites?: string[];
+  // Names of prerequisites that also came out weak, when this topic is weak
+  weakPrerequisites?: string[];
+  // From the per-answer rubric grades; missing when no answer on the topic was graded
+  conceptMastery?: ConceptMastery[];
+  rubric?: RubricSummary;
 }
 
 export interface RevisitItem {
   concept: string;
   topicName: string;
   noteSection?: string;
+  // The student answered on this topic sure of themselves and was wrong
+  confidentlyWrong?: boolean;
+}
+
+// Confidence against graded correctness for one topic
+export interface TopicCalibration {
+  topicId: string;
+  topicName: string;
+  // Answers with both a confidence rating and a grade
+  answers: number;
+  // Both 0–1: mean confidence (1 → 0, 4 → 1) and mean graded accuracy
+  confidence: number;
+  correctness: number;
+  verdict: 'calibrated' | 'overconfident' | 'underconfident';
+  // Answers rated fairly sure or certain that were graded wrong, and the concepts they missed
+  confidentlyWrong: number;
+  wrongConcepts: string[];
+}
+
+// 'hidden' pauses are taken automatically when the tab loses visibility
+export interface SessionPause {
+  start: number;
+  end?: number;
+  reason: 'manual' | 'hidden';
+}
+
+export interface MisconceptionOutcome {
+  statement: string;
+  topicId: string;
+  topicName: string;
+  noteSection?: string;
+  resolved: boolean;
 }
 
 export interface KnowledgeReport {
   sessionId: string;
+  uploadId?: string;
+  noteSetId?: string;
   date: string;
   uploadTitle: string;
   durationMinutes: number;
   actualDurationMinutes: number;
+  // Missing on reports from before pacing modes, which were all timed
+  pacing?: SessionPacing;
   topics: TopicPerformance[];
   revisitList: RevisitItem[];
   overtimeUsed: boolean;
+  // Misconceptions still being corrected when the session ended count as unresolved
+  misconceptions?: MisconceptionOutcome[];
+  // Topics with rated and graded answers
+  calibration?: TopicCalibration[];
+  isReview?: boolean;
+  pauses?: SessionPause[];
+  pausedMinutes?: number;
 }
 
 export interface CheckSession {
   id: string;
+  uploadId?: string;
+  // Hash of the note text; stable across re-uploads of the same notes
+  noteSetId?: string;
   uploadTitle: string;
   noteContent: string;
   topics: ExtractedTopic[];
   messages: QAMessage[];
   duration: SessionDuration;
+  // Missing on sessions checkpointed before pacing modes: timed, for `duration` minutes
+  pacing?: SessionPacing;
   startTime: number;
   endTime?: number;
   isOvertimeActive: boolean;
+  // Set for review sessions seeded from due spaced-repetition items
+  reviewItemIds?: string[];
+  // Last entry without an end means the session is paused right now
+  pauses?: SessionPause[];
   topicPerformances: Record<string, TopicPerformance>;
+  // Corrected one at a time, in the order they were stated
+  misconceptions?: Misconception[];
   report?: KnowledgeReport;
   status: 'setup' | 'active' | 'overtime' | 'complete';
 }
 
+// One concept on the spaced-repetition schedule (SM-2). `deckKey` groups the concepts
+// that came from the same notes so a review session can be run against them.
+export interface ReviewItem {
+  id: string;
+  deckKey: string;
+  uploadId?: string;
+  noteSetId?: string;
+  uploadTitle: string;
+  topicId: string;
+  topicName: string;
+  noteSection?: string;
+  concept: string;
+  easiness: number;
+  repetitions: number;
+  intervalDays: number;
+  dueAt: number;
+  lastReviewedAt: number;
+  lastStatus: Exclude<TopicStatus, 'untested'>;
+}
+
+export type MasteryTrend = 'improving' | 'declining' | 'steady' | 'new';
+
+export interface MasteryPoint {
+  sessionId: string;
+  date: string;
+  status: TopicStatus;
+}
+
+export interface TopicTimeline {
+  topicId: string;
+  topicName: string;
+  noteSection?: string;
+  points: MasteryPoint[];
+  trend: MasteryTrend;
+}
+
+export interface NoteSetHistory {
+  noteSetId: string;
+  title: string;
+  sessionCount: number;
+  lastDate: string;
+  topics: TopicTimeline[];
+}
+
+export interface ReviewDeck {
+  deckKey: string;
+  uploadId?: string;
+  noteSetId?: string;
+  uploadTitle: string;
+  items: ReviewItem[];
+}
+
+// Last known state of an unfinished session, keyed per account on this device
+export interface SessionCheckpoint {
+  key: string;
+  session: CheckSession;
+  elapsedSeconds: number;
+  overtimeTriggered: boolean;
+  savedAt: number;
+}
+
 export interface SessionTurnResponse {
   message: string;
   isFollowUp: boolean;
+  questionType: QuestionType;
+  question?: QuestionSpec;
   currentTopicId: string;
   topicUpdate?: {
     topicId: string;
     status: 'strong' | 'weak' | 'revisit';
     evidence: string;
   };
+  // Rubric grade for the student's last answer
+  grade?: AnswerGrade;
+  // Only on the reply that judges a misconception's re-check answer
+  misconceptionResolved?: boolean;
   sessionShouldEnd: boolean;
   overtimeNeeded: boolean;
 }